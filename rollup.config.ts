@@ -1,7 +1,30 @@
 import typescript from '@rollup/plugin-typescript';
 import type { RollupOptions } from 'rollup';
 
-const OPTIONS: RollupOptions = {
+const PLUGINS: RollupOptions['plugins'] = [
+    typescript({
+        // needs to be passed as file path to enable declaration file emission as a side effect, until
+        // https://github.com/rollup/plugins/pull/1201 is merged.
+        tsconfig: './tsconfig.json',
+        include: ['src/**/*'],
+    }),
+];
+
+// For command line tools, for which no declaration files are needed
+const BIN_PLUGINS: RollupOptions['plugins'] = [
+    typescript({
+        tsconfig: './tsconfig.json',
+        include: ['src/**/*'],
+        compilerOptions: {
+            declaration: false,
+            declarationDir: undefined,
+        },
+    }),
+];
+
+const NODE_BUILTINS = /^node:/;
+
+const OPTIONS: RollupOptions[] = [{
     input: 'src/index.ts',
     output: [{
         file: 'dist/index.es.js',
@@ -15,14 +38,109 @@ const OPTIONS: RollupOptions = {
         interop: false,
         sourcemap: true,
     }],
-    plugins: [
-        typescript({
-            // needs to be passed as file path to enable declaration file emission as a side effect, until
-            // https://github.com/rollup/plugins/pull/1201 is merged.
-            tsconfig: './tsconfig.json',
-            include: ['src/**/*'],
-        }),
-    ],
-};
+    plugins: PLUGINS,
+}, {
+    // DOM-free entry point for Node, workers and server-side rendering. The es build uses the .mjs extension for Node to
+    // recognize it as es module.
+    input: 'src/server.ts',
+    output: [{
+        file: 'dist/server.mjs',
+        format: 'es',
+        interop: false,
+        sourcemap: true,
+    }, {
+        file: 'dist/server.js',
+        format: 'cjs',
+        exports: 'named',
+        interop: false,
+        sourcemap: true,
+    }],
+    plugins: PLUGINS,
+}, {
+    // Mock server for Node, see mock-server.ts
+    input: 'src/mock-server.ts',
+    output: [{
+        file: 'dist/mock-server.mjs',
+        format: 'es',
+        interop: false,
+        sourcemap: true,
+    }, {
+        file: 'dist/mock-server.js',
+        format: 'cjs',
+        interop: false,
+        sourcemap: true,
+    }],
+    external: NODE_BUILTINS,
+    plugins: PLUGINS,
+}, {
+    // Optional React bindings, see react.ts
+    input: 'src/react.ts',
+    output: [{
+        file: 'dist/react.es.js',
+        format: 'es',
+        interop: false,
+        sourcemap: true,
+    }, {
+        file: 'dist/react.js',
+        format: 'cjs',
+        interop: false,
+        sourcemap: true,
+    }],
+    external: ['react'],
+    plugins: PLUGINS,
+}, {
+    // Optional Vue bindings, see vue.ts
+    input: 'src/vue.ts',
+    output: [{
+        file: 'dist/vue.es.js',
+        format: 'es',
+        interop: false,
+        sourcemap: true,
+    }, {
+        file: 'dist/vue.js',
+        format: 'cjs',
+        interop: false,
+        sourcemap: true,
+    }],
+    external: ['vue'],
+    plugins: PLUGINS,
+}, {
+    // <ten31-pass-button> custom element, which includes the full library, such that the umd build can be used as a
+    // standalone script.
+    input: 'src/web-component.ts',
+    output: [{
+        file: 'dist/web-component.es.js',
+        format: 'es',
+        interop: false,
+        sourcemap: true,
+    }, {
+        file: 'dist/web-component.js',
+        format: 'umd',
+        name: 'Ten31PassButton',
+        interop: false,
+        sourcemap: true,
+    }],
+    plugins: PLUGINS,
+}, {
+    input: 'src/bin/mock-server.ts',
+    output: {
+        file: 'dist/bin/mock-server.js',
+        format: 'cjs',
+        banner: '#!/usr/bin/env node',
+        interop: false,
+    },
+    external: NODE_BUILTINS,
+    plugins: BIN_PLUGINS,
+}, {
+    input: 'src/bin/cli.ts',
+    output: {
+        file: 'dist/bin/cli.js',
+        format: 'cjs',
+        banner: '#!/usr/bin/env node',
+        interop: false,
+    },
+    external: NODE_BUILTINS,
+    plugins: BIN_PLUGINS,
+}];
 
 export default OPTIONS;
@@ -0,0 +1,215 @@
+// Command line interface for TEN31 Pass, see USAGE below.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs, type ParseArgsConfig } from 'node:util';
+import Ten31PassServerApi from '../server';
+import { Endpoint, type ServiceInfo } from '../types';
+import { generateServiceRegistryType } from '../codegen';
+
+const API_KEY_ENV_VARIABLE = 'TEN31_PASS_SERVICE_API_KEY';
+
+const USAGE = `Usage: ten31-pass <command> [options]
+
+Commands:
+  app <appId>                              Show an app's info
+  service <serviceId>                      Show a service's info and usages
+  grant app <appGrantId>                   Show an app grant, including the app and user
+  grant service <serviceGrantId>           Show a service grant and its usages
+    --api-key                              Also show consumption and user, using the service api key
+  consume <serviceGrantId> <usageGrantId>  Consume a usage grant, using the service api key. Can not be undone.
+    --metadata <json>                      Consumption metadata as JSON object
+  codegen                                  Generate a ServiceRegistry type for type-safe grant requests
+    --service <id>                         Service to fetch from TEN31 Pass, can be repeated
+    --snapshot <file.json>                 Saved service info or array of service info, can be repeated
+    --type-name <name>                     Name of the generated type, defaults to Ten31PassServices
+    --out <file.ts>                        File to write to, defaults to stdout
+
+Options:
+  --endpoint <MAIN|TEST|LOCAL|url>         TEN31 Pass endpoint, defaults to MAIN
+  --output <table|json>                    Output format, defaults to table
+
+The service api key is read from environment variable ${API_KEY_ENV_VARIABLE}, such that it does not end up
+in the shell history.`;
+
+const COMMON_OPTIONS = {
+    'endpoint': { type: 'string' },
+    'output': { type: 'string' },
+} as const;
+
+type Command = (args: string[]) => Promise<void>;
+
+const COMMANDS: Record<string, Command> = {
+    async app(args) {
+        const { values, positionals: [appId] } = parseCommandArgs({
+            args,
+            options: COMMON_OPTIONS,
+            allowPositionals: true,
+        }, 1);
+        const api = createApi(values.endpoint);
+        printResult(await api.getAppInfo(appId), values.output, `App ${appId}`);
+    },
+
+    async service(args) {
+        const { values, positionals: [serviceId] } = parseCommandArgs({
+            args,
+            options: COMMON_OPTIONS,
+            allowPositionals: true,
+        }, 1);
+        const api = createApi(values.endpoint);
+        printResult(await api.getServiceInfo(serviceId), values.output, `Service ${serviceId}`);
+    },
+
+    async grant(args) {
+        const { values, positionals: [type, grantId] } = parseCommandArgs({
+            args,
+            options: { ...COMMON_OPTIONS, 'api-key': { type: 'boolean' } },
+            allowPositionals: true,
+        }, 2);
+        const api = createApi(values.endpoint);
+        if (type === 'app') {
+            if (values['api-key']) throw new UsageError('Option --api-key is only supported for service grants.');
+            printResult(await api.getAppGrantInfo(grantId), values.output, `App grant ${grantId}`);
+        } else if (type === 'service') {
+            const serviceGrantInfo = values['api-key']
+                ? await api.getServiceGrantInfo(grantId, getApiKey())
+                : await api.getServiceGrantInfo(grantId);
+            printResult(serviceGrantInfo, values.output, `Service grant ${grantId}`);
+        } else {
+            throw new UsageError(`Invalid grant type ${type}, expected app or service.`);
+        }
+    },
+
+    async consume(args) {
+        const { values, positionals: [serviceGrantId, usageGrantId] } = parseCommandArgs({
+            args,
+            options: { ...COMMON_OPTIONS, 'metadata': { type: 'string' } },
+            allowPositionals: true,
+        }, 2);
+        let metadata: Record<string, unknown> | undefined;
+        try {
+            metadata = values.metadata ? JSON.parse(values.metadata) : undefined;
+        } catch (e: any) {
+            throw new UsageError(`Invalid metadata: ${e.message}`);
+        }
+        if (metadata !== undefined && (!metadata || typeof metadata !== 'object' || Array.isArray(metadata))) {
+            throw new UsageError('Invalid metadata, expected a JSON object.');
+        }
+        const api = createApi(values.endpoint);
+        printResult(await api.consumeServiceGrant(serviceGrantId, [{ usageGrantId, metadata }], getApiKey()),
+            values.output, `Service grant ${serviceGrantId}`);
+    },
+
+    async codegen(args) {
+        const { values } = parseCommandArgs({
+            args,
+            options: {
+                ...COMMON_OPTIONS,
+                'service': { type: 'string', multiple: true },
+                'snapshot': { type: 'string', multiple: true },
+                'type-name': { type: 'string' },
+                'out': { type: 'string' },
+            },
+        }, 0);
+        const serviceIds = values.service || [];
+        const snapshots = values.snapshot || [];
+        if (!serviceIds.length && !snapshots.length) throw new UsageError('Specify at least one service or snapshot.');
+
+        const services: ServiceInfo[] = snapshots.flatMap((snapshot) => {
+            const content = JSON.parse(readFileSync(snapshot, 'utf8'));
+            return Array.isArray(content) ? content : [content];
+        });
+        if (serviceIds.length) {
+            const api = createApi(values.endpoint);
+            for (const serviceId of serviceIds) {
+                const service = await api.getServiceInfo(serviceId);
+                if (!service) throw new Error(`Service ${serviceId} does not exist or is deactivated.`);
+                services.push(service);
+            }
+        }
+        const duplicate = services.find(({ id }, i) => services.findIndex((service) => service.id === id) !== i);
+        if (duplicate) throw new UsageError(`Service ${duplicate.id} was specified multiple times.`);
+
+        const source = generateServiceRegistryType(services, { typeName: values['type-name'] });
+        if (values.out) {
+            writeFileSync(values.out, source);
+        } else {
+            process.stdout.write(source);
+        }
+    },
+};
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+/** Parse a command's arguments, including the COMMON_OPTIONS, and check the number of positional arguments. */
+function parseCommandArgs<Config extends ParseArgsConfig>(config: Config, positionalCount: number) {
+    const result = parseArgs(config);
+    if (result.positionals.length !== positionalCount) {
+        throw new UsageError(`Expected ${positionalCount} arguments, got ${result.positionals.length}.`);
+    }
+    const { output } = result.values as { output?: string };
+    if (output && output !== 'table' && output !== 'json') {
+        throw new UsageError(`Invalid output ${output}, expected table or json.`);
+    }
+    return result;
+}
+
+function createApi(endpoint = 'MAIN'): Ten31PassServerApi {
+    if (Object.prototype.hasOwnProperty.call(Endpoint, endpoint)) {
+        endpoint = Endpoint[endpoint as keyof typeof Endpoint];
+    } else if (!/^https?:\/\//.test(endpoint)) {
+        throw new UsageError(`Invalid endpoint ${endpoint}, expected ${Object.keys(Endpoint).join(', ')} or a url.`);
+    }
+    return new Ten31PassServerApi(endpoint, { strict: true });
+}
+
+function getApiKey(): string {
+    const apiKey = process.env[API_KEY_ENV_VARIABLE];
+    if (!apiKey) throw new UsageError(`Set the service api key via environment variable ${API_KEY_ENV_VARIABLE}.`);
+    return apiKey;
+}
+
+function printResult(result: unknown, output: string | undefined, description: string): void {
+    if (result === null) throw new Error(`${description} does not exist or is deactivated.`);
+    console.log(output === 'json' ? JSON.stringify(result, null, 2) : formatTable(result));
+}
+
+/** Format a value as table of field paths and values, with nested objects and arrays flattened. */
+function formatTable(value: unknown): string {
+    const rows: Array<[string, string]> = [];
+    const addRows = (path: string, entry: unknown) => {
+        if (entry && typeof entry === 'object' && Object.keys(entry).length) {
+            for (const [key, nestedEntry] of Object.entries(entry)) {
+                addRows(Array.isArray(entry) ? `${path}[${key}]` : path ? `${path}.${key}` : key, nestedEntry);
+            }
+        } else {
+            rows.push([path, typeof entry === 'string' ? entry : JSON.stringify(entry)]);
+        }
+    };
+    addRows('', value);
+    const width = Math.max(...rows.map(([path]) => path.length));
+    return rows.map(([path, entry]) => `${path.padEnd(width)}  ${entry}`).join('\n');
+}
+
+const [commandName, ...commandArgs] = process.argv.slice(2);
+if (commandName === '--help') {
+    console.log(USAGE);
+    process.exit(0);
+}
+if (!commandName || !Object.prototype.hasOwnProperty.call(COMMANDS, commandName)) {
+    console.error(commandName ? `Unknown command ${commandName}\n\n${USAGE}` : USAGE);
+    process.exit(1);
+}
+
+COMMANDS[commandName](commandArgs).catch((e) => {
+    if (e instanceof UsageError || e?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+        console.error(`${e.message}\n\n${USAGE}`);
+    } else {
+        console.error(e instanceof Error ? e.message : e);
+    }
+    process.exit(1);
+});
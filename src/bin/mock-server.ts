@@ -0,0 +1,41 @@
+// Command line entry point of the mock server, see mock-server.ts.
+// Usage: ten31-pass-mock-server [--port <port>] [--fixtures <fixtures.json>] [--status <ResponseStatus>]
+//     [--response-type <ResponseType>] [--redirect-delay <ms>]
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { startMockServer } from '../mock-server';
+import { ResponseStatus, ResponseType } from '../types';
+
+const { values } = parseArgs({
+    options: {
+        'port': { type: 'string' },
+        'fixtures': { type: 'string' },
+        'status': { type: 'string' },
+        'response-type': { type: 'string' },
+        'redirect-delay': { type: 'string' },
+    },
+});
+
+if (values.status && !Object.values<string>(ResponseStatus).includes(values.status)) {
+    console.error(`Invalid status ${values.status}, expected one of ${Object.values(ResponseStatus).join(', ')}`);
+    process.exit(1);
+}
+if (values['response-type'] && !Object.values<string>(ResponseType).includes(values['response-type'])) {
+    console.error(`Invalid response type ${values['response-type']}, expected one of `
+        + Object.values(ResponseType).join(', '));
+    process.exit(1);
+}
+
+startMockServer({
+    port: values.port ? Number.parseInt(values.port, 10) : undefined,
+    fixtures: values.fixtures ? JSON.parse(readFileSync(values.fixtures, 'utf8')) : undefined,
+    outcome: {
+        status: values.status as ResponseStatus | undefined,
+        responseType: values['response-type'] as ResponseType | undefined,
+        redirectDelay: values['redirect-delay'] ? Number.parseInt(values['redirect-delay'], 10) : undefined,
+    },
+}).then((server) => console.log(`TEN31 Pass mock server listening on ${server.endpoint}`), (e) => {
+    console.error(e);
+    process.exit(1);
+});
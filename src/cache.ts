@@ -0,0 +1,85 @@
+export interface CacheOptions {
+    /** Time in ms for which fetched values are cached. Defaults to 60 seconds. */
+    ttl?: number,
+}
+
+interface CacheEntry<T> {
+    value: Promise<T>,
+    /** Infinity while the fetch is pending */
+    expiry: number,
+    /** Number of callers waiting for the pending fetch */
+    waiters: number,
+    abortController: AbortController,
+}
+
+/**
+ * Simple in-memory cache for asynchronously fetched values, which also deduplicates concurrent fetches of the same
+ * key. Failed fetches are not cached. Pending fetches are aborted and evicted once all callers waiting for them have
+ * aborted via their signals, such that a hanging fetch does not block later calls for the same key.
+ */
+export class Cache<T> {
+    private readonly _ttl: number;
+    private readonly _entries = new Map<string, CacheEntry<T>>();
+
+    constructor({ ttl = 60 * 1000 }: CacheOptions = {}) {
+        this._ttl = ttl;
+    }
+
+    /**
+     * Get the cached value for a key, or fetch it. If the caller's signal aborts while the fetch is pending, the
+     * returned promise rejects with the signal's abort reason.
+     */
+    get(key: string, fetchValue: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+        if (signal?.aborted) return Promise.reject(signal.reason);
+        let entry = this._entries.get(key);
+        if (!entry || entry.expiry <= Date.now()) {
+            const abortController = new AbortController();
+            // Pending fetches never expire and only get their expiry set once resolved.
+            const newEntry: CacheEntry<T> = {
+                value: fetchValue(abortController.signal),
+                expiry: Infinity,
+                waiters: 0,
+                abortController,
+            };
+            this._entries.set(key, newEntry);
+            newEntry.value.then(
+                () => newEntry.expiry = Date.now() + this._ttl,
+                () => this._evict(key, newEntry),
+            );
+            entry = newEntry;
+        }
+        if (entry.expiry !== Infinity) return entry.value;
+        return this._wait(key, entry, signal);
+    }
+    /** Invalidate a specific key, or all keys if no key is specified. */
+    invalidate(key?: string): void {
+        if (key === undefined) {
+            this._entries.clear();
+        } else {
+            this._entries.delete(key);
+        }
+    }
+
+    private _wait(key: string, entry: CacheEntry<T>, signal?: AbortSignal): Promise<T> {
+        ++entry.waiters;
+        if (!signal) return entry.value;
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                reject(signal.reason);
+                --entry.waiters;
+                if (entry.waiters || entry.expiry !== Infinity) return;
+                // Nobody is waiting for the pending fetch anymore.
+                this._evict(key, entry);
+                entry.abortController.abort();
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+            entry.value.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    private _evict(key: string, entry: CacheEntry<T>): void {
+        // Only delete the entry if it has not been invalidated or replaced in the meantime.
+        if (this._entries.get(key) !== entry) return;
+        this._entries.delete(key);
+    }
+}
@@ -0,0 +1,58 @@
+// Generation of ServiceRegistry types from service info, used by the ten31-pass codegen command.
+
+import type { ServiceInfo } from './types';
+
+export interface ServiceRegistryCodegenOptions {
+    /** Name of the exported registry type. Defaults to Ten31PassServices. */
+    typeName?: string,
+}
+
+/**
+ * Generate the TypeScript source of a ServiceRegistry type for the given services, with their usage ids as keys and
+ * the usages' fields as parameter keys. As TEN31 Pass does not describe the types of parameters, they are typed as
+ * unknown. Services and usages are sorted by id, such that the output is stable.
+ */
+export function generateServiceRegistryType(
+    services: ServiceInfo[],
+    { typeName = 'Ten31PassServices' }: ServiceRegistryCodegenOptions = {},
+): string {
+    if (!/^[A-Za-z_$][\w$]*$/.test(typeName)) throw new Error(`Invalid type name ${typeName}`);
+    const lines = [
+        '// Generated by ten31-pass codegen from TEN31 Pass service info. Do not edit manually.',
+        '',
+        `export type ${typeName} = {`,
+    ];
+    for (const service of [...services].sort((a, b) => compareIds(a.id, b.id))) {
+        lines.push(
+            `    /** ${escapeComment(service.displayName)} */`,
+            `    ${quote(service.id)}: {`,
+        );
+        for (const usage of Object.values(service.usages).sort((a, b) => compareIds(a.id, b.id))) {
+            lines.push(`        /** ${escapeComment(usage.displayName)} */`);
+            if (!usage.fields.length) {
+                lines.push(`        ${quote(usage.id)}: {},`);
+                continue;
+            }
+            lines.push(
+                `        ${quote(usage.id)}: {`,
+                ...usage.fields.map((field) => `            ${quote(field)}: unknown,`),
+                '        },',
+            );
+        }
+        lines.push('    },');
+    }
+    lines.push('};', '');
+    return lines.join('\n');
+}
+
+function compareIds(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function quote(key: string): string {
+    return `'${key.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\n/g, '\\n')}'`;
+}
+
+function escapeComment(text: string): string {
+    return text.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ');
+}
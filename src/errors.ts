@@ -0,0 +1,211 @@
+import type { ResponseStatus } from './types';
+import type { GrantRequestProblem } from './grant-request-validation';
+
+/**
+ * Base class of all errors thrown by this library, such that they can be distinguished from other errors via
+ * instanceof.
+ */
+export class Ten31PassError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        // Set name explicitly instead of via constructor.name, which does not survive minification.
+        this.name = 'Ten31PassError';
+    }
+}
+
+/** Thrown if the TEN31 Pass popup could not be opened, typically because it was blocked by the browser. */
+export class PopupBlockedError extends Ten31PassError {
+    constructor(message = 'TEN31 Pass popup failed to open.', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'PopupBlockedError';
+    }
+}
+
+/** Thrown if the TEN31 Pass popup was closed, typically by the user, before a response was received. */
+export class PopupClosedError extends Ten31PassError {
+    constructor(message = 'TEN31 Pass popup closed', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'PopupClosedError';
+    }
+}
+
+/** Thrown if TEN31 Pass responded to a request with an error status. */
+export class RequestRejectedError extends Ten31PassError {
+    constructor(public readonly status: Exclude<ResponseStatus, ResponseStatus.Success>, options?: ErrorOptions) {
+        super(`TEN31 Pass rejected request with error: ${status}`, { cause: new Error(status), ...options });
+        this.name = 'RequestRejectedError';
+    }
+}
+
+/** Thrown if a response by TEN31 Pass does not have the expected shape. */
+export class UnexpectedResponseError extends Ten31PassError {
+    constructor(message = 'TEN31 Pass did not return expected response.', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'UnexpectedResponseError';
+    }
+}
+
+/**
+ * Thrown in strict mode for api responses which do not have the expected shape. The offending field is named by its
+ * path within the response, e.g. user.identifications[0].expiry.
+ */
+export class ResponseValidationError extends UnexpectedResponseError {
+    constructor(
+        public readonly path: string,
+        public readonly field: string,
+        public readonly expected: string,
+        public readonly received: string,
+        options?: ErrorOptions,
+    ) {
+        super(`TEN31 Pass response for ${path} has an invalid ${field ? `field ${field}` : 'body'}: expected `
+            + `${expected}, got ${received}.`, options);
+        this.name = 'ResponseValidationError';
+    }
+}
+
+/**
+ * Thrown for redirect responses which do not belong to a request made from this browser tab, identified by the nonce
+ * that is sent with each request. This can be the case for crafted redirect responses.
+ */
+export class UnknownRedirectResponseError extends UnexpectedResponseError {
+    constructor(message = 'TEN31 Pass redirect response does not match a pending request.', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'UnknownRedirectResponseError';
+    }
+}
+
+/** Thrown for invalid requests, before sending them to TEN31 Pass, for example for duplicate service or usage ids. */
+export class InvalidRequestError extends Ten31PassError {
+    constructor(message = 'TEN31 Pass request invalid', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'InvalidRequestError';
+    }
+}
+
+/** Thrown by assertValidGrantRequest for grant requests which do not match the requested services' info. */
+export class GrantRequestValidationError extends InvalidRequestError {
+    constructor(public readonly problems: GrantRequestProblem[], options?: ErrorOptions) {
+        super(`TEN31 Pass request invalid: ${problems.map(({ message }) => message).join(' ')}`, options);
+        this.name = 'GrantRequestValidationError';
+    }
+}
+
+/** Thrown if an api request to TEN31 Pass failed with a non-ok http status, other than 404. */
+export class HttpError extends Ten31PassError {
+    constructor(
+        public readonly path: string,
+        public readonly status: number,
+        public readonly statusText: string,
+        /** The response body as text */
+        public readonly body: string,
+        options?: ErrorOptions,
+    ) {
+        super(`TEN31 Pass request to ${path} failed: ${status}: ${statusText}`, options);
+        this.name = 'HttpError';
+    }
+}
+
+/** Thrown if an api request to TEN31 Pass failed without receiving a response, for example due to connection issues. */
+export class NetworkError extends Ten31PassError {
+    constructor(public readonly path: string, options?: ErrorOptions) {
+        const causeMessage = (options?.cause as Error | undefined)?.message;
+        super(`TEN31 Pass request to ${path} failed: ${causeMessage || 'network error'}`, options);
+        this.name = 'NetworkError';
+    }
+}
+
+/** Thrown if an api request to TEN31 Pass did not complete within the configured timeout. */
+export class RequestTimeoutError extends Ten31PassError {
+    constructor(public readonly path: string, public readonly timeout: number, options?: ErrorOptions) {
+        super(`TEN31 Pass request to ${path} timed out after ${timeout}ms.`, options);
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+/** Thrown if a request was cancelled via its AbortSignal. The signal's abort reason is set as cause. */
+export class RequestAbortedError extends Ten31PassError {
+    constructor(message = 'TEN31 Pass request aborted.', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'RequestAbortedError';
+    }
+}
+
+/** Thrown by requestGrants with concurrency policy 'reject' if another popup request is still in progress. */
+export class ConcurrentRequestError extends Ten31PassError {
+    constructor(message = 'Another TEN31 Pass request is already in progress.', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'ConcurrentRequestError';
+    }
+}
+
+/**
+ * Thrown by waitForServiceGrant and watchServiceGrant if the watched service grant does not exist (anymore) or its
+ * service is deactivated.
+ */
+export class ServiceGrantUnavailableError extends Ten31PassError {
+    constructor(public readonly serviceGrantId: string, options?: ErrorOptions) {
+        super(`TEN31 Pass service grant ${serviceGrantId} does not exist or its service is deactivated.`, options);
+        this.name = 'ServiceGrantUnavailableError';
+    }
+}
+
+/**
+ * Thrown by waitForServiceGrant and watchServiceGrant if TEN31 Pass did not include the service grant's consumption
+ * and user, which is the case for invalid service api keys or api keys of another service.
+ */
+export class InvalidServiceApiKeyError extends Ten31PassError {
+    constructor(public readonly serviceGrantId: string, options?: ErrorOptions) {
+        super(`TEN31 Pass did not accept the service api key for service grant ${serviceGrantId}.`, options);
+        this.name = 'InvalidServiceApiKeyError';
+    }
+}
+
+/** Thrown by ServiceGrant.assertBelongsTo for service grants of a different service or app than the expected one. */
+export class ServiceGrantMismatchError extends Ten31PassError {
+    constructor(
+        public readonly field: 'serviceId' | 'appId',
+        public readonly expected: string,
+        public readonly actual: string,
+        options?: ErrorOptions,
+    ) {
+        super(`TEN31 Pass service grant is for ${field === 'serviceId' ? 'service' : 'app'} ${actual} instead of `
+            + `${expected}.`, options);
+        this.name = 'ServiceGrantMismatchError';
+    }
+}
+
+/**
+ * Thrown for service grant tokens which can not be decoded or verified, for example because they are malformed, use
+ * an unsupported algorithm or no matching verification key is known. More specific failures are reported via the
+ * subclasses below.
+ */
+export class ServiceGrantTokenError extends Ten31PassError {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'ServiceGrantTokenError';
+    }
+}
+
+/** Thrown for service grant tokens whose signature does not match any of the configured verification keys. */
+export class ServiceGrantTokenSignatureError extends ServiceGrantTokenError {
+    constructor(message = 'TEN31 Pass service grant token has an invalid signature.', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'ServiceGrantTokenSignatureError';
+    }
+}
+
+/** Thrown for service grant tokens which have expired. */
+export class ServiceGrantTokenExpiredError extends ServiceGrantTokenError {
+    constructor(public readonly expiry: Date, options?: ErrorOptions) {
+        super(`TEN31 Pass service grant token expired at ${expiry.toISOString()}.`, options);
+        this.name = 'ServiceGrantTokenExpiredError';
+    }
+}
+
+/** Thrown for service grant tokens which were issued for a different service than the expected one. */
+export class ServiceGrantTokenServiceMismatchError extends ServiceGrantTokenError {
+    constructor(public readonly expectedServiceId: string, public readonly serviceId: string, options?: ErrorOptions) {
+        super(`TEN31 Pass service grant token is for service ${serviceId} instead of ${expectedServiceId}.`, options);
+        this.name = 'ServiceGrantTokenServiceMismatchError';
+    }
+}
@@ -0,0 +1,33 @@
+export type EventListener<T> = (event: T) => void;
+
+/**
+ * Minimal typed event emitter. Errors thrown by listeners are logged, but do not affect the emitter or other listeners.
+ */
+export class EventEmitter<Events extends object> {
+    private readonly _listeners = new Map<keyof Events, Set<EventListener<any>>>();
+
+    /** Register a listener. Returns a function for unregistering the listener again. */
+    on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+        let listeners = this._listeners.get(type);
+        if (!listeners) {
+            listeners = new Set();
+            this._listeners.set(type, listeners);
+        }
+        listeners.add(listener);
+        return () => this.off(type, listener);
+    }
+
+    off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+        this._listeners.get(type)?.delete(listener);
+    }
+
+    emit<K extends keyof Events>(type: K, event: Events[K]): void {
+        for (const listener of this._listeners.get(type) || []) {
+            try {
+                listener(event);
+            } catch (e) {
+                console.error(`Error in TEN31 Pass ${String(type)} event listener:`, e);
+            }
+        }
+    }
+}
@@ -0,0 +1,130 @@
+// Framework-agnostic state handling of grant requests, shared by the React and Vue bindings.
+
+import type Ten31PassApi from './index';
+import type { LocaleOptions, PopupConcurrencyOptions, PopupFallbackOptions } from './index';
+import type { GrantResponse, ServiceRequest } from './types';
+import type { PopupOverlayOptions } from './overlay';
+
+export type GrantRequestStatus = 'idle' | 'pending' | 'granted' | 'rejected' | 'cancelled';
+
+export interface GrantRequestState {
+    status: GrantRequestStatus,
+    /** Set for status 'granted' */
+    response: GrantResponse | null,
+    /** The redirectRecoverableState, if the response was recovered after a redirect */
+    recoveredState: any | null,
+    /** Set for status 'rejected' */
+    error: unknown | null,
+}
+
+export type GrantRequestOptions = {
+    redirectRecoverableState?: any,
+    popupOverlay?: boolean | PopupOverlayOptions,
+} & PopupFallbackOptions & PopupConcurrencyOptions & LocaleOptions;
+
+const INITIAL_STATE: GrantRequestState = { status: 'idle', response: null, recoveredState: null, error: null };
+
+// Errors are detected by name instead of via instanceof, as the bindings are separate bundles from the main entry.
+const CANCELLATION_ERRORS = ['RequestAbortedError', 'PopupClosedError'];
+
+/**
+ * Tracks the state of grant requests made via popup, including cancellation and responses recovered after a redirect.
+ * Only the latest request is tracked. Starting a new request cancels the previous one.
+ */
+export class GrantRequestController {
+    private _state = INITIAL_STATE;
+    private _abortController: AbortController | null = null;
+    private readonly _listeners = new Set<(state: GrantRequestState) => void>();
+
+    constructor(private readonly _api: Ten31PassApi) {}
+
+    get state(): GrantRequestState {
+        return this._state;
+    }
+
+    /** Register a listener for state changes. Returns a function for unregistering the listener again. */
+    subscribe(listener: (state: GrantRequestState) => void): () => void {
+        this._listeners.add(listener);
+        return () => this._listeners.delete(listener);
+    }
+
+    /**
+     * Request grants via a popup. Never rejects. Instead, failures are reported via the state and null is returned.
+     * Note that with option fallbackToRedirect, the promise never settles on fallback to a redirect, and the response
+     * is then recovered via recoverRedirectResponse after the redirect back.
+     */
+    async requestGrants(
+        appId: string,
+        services?: ServiceRequest[],
+        options?: GrantRequestOptions,
+    ): Promise<GrantResponse | null> {
+        this.cancel();
+        const abortController = this._abortController = new AbortController();
+        this._setState({ ...INITIAL_STATE, status: 'pending' });
+        try {
+            const response = await this._api.requestGrants(appId, services, true, {
+                ...options,
+                signal: abortController.signal,
+            });
+            if (this._abortController !== abortController) return null; // superseded by another request
+            this._setState({ ...INITIAL_STATE, status: 'granted', response });
+            return response;
+        } catch (error) {
+            if (this._abortController !== abortController) return null;
+            this._setState(CANCELLATION_ERRORS.includes((error as Error)?.name)
+                ? { ...INITIAL_STATE, status: 'cancelled' }
+                : { ...INITIAL_STATE, status: 'rejected', error });
+            return null;
+        } finally {
+            if (this._abortController === abortController) {
+                this._abortController = null;
+            }
+        }
+    }
+
+    /** Cancel the pending request, if any, which closes its popup. */
+    cancel(): void {
+        if (!this._abortController) return;
+        const abortController = this._abortController;
+        this._abortController = null;
+        abortController.abort();
+        this._setState({ ...INITIAL_STATE, status: 'cancelled' });
+    }
+
+    /** Check for a grant response received via redirect, see Ten31PassApi.getRedirectGrantResponse. */
+    recoverRedirectResponse(): GrantResponse | null {
+        try {
+            const redirectResponse = this._api.getRedirectGrantResponse();
+            if (!redirectResponse) return null;
+            this._setState({
+                ...INITIAL_STATE,
+                status: 'granted',
+                response: redirectResponse.response,
+                recoveredState: redirectResponse.recoveredState,
+            });
+            return redirectResponse.response;
+        } catch (error) {
+            this._setState({ ...INITIAL_STATE, status: 'rejected', error });
+            return null;
+        }
+    }
+
+    /** Reset the state to idle, cancelling the pending request, if any. */
+    reset(): void {
+        this.cancel();
+        this._setState(INITIAL_STATE);
+    }
+
+    /** Cancel the pending request and unregister all listeners. */
+    dispose(): void {
+        this.cancel();
+        this._listeners.clear();
+    }
+
+    private _setState(state: GrantRequestState): void {
+        this._state = state;
+        for (const listener of this._listeners) {
+            listener(state);
+        }
+    }
+}
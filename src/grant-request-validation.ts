@@ -0,0 +1,124 @@
+import type { ServiceInfo, ServiceRequest, ServiceUsageInfo } from './types';
+
+/** A problem found in a grant request by validateGrantRequest. */
+export type GrantRequestProblem = {
+    type: 'duplicate-service' | 'unknown-service',
+    serviceId: string,
+    message: string,
+} | {
+    type: 'duplicate-usage' | 'unknown-usage',
+    serviceId: string,
+    usageId: string,
+    message: string,
+} | {
+    type: 'missing-parameter' | 'unknown-parameter' | 'non-serializable-parameter',
+    serviceId: string,
+    usageId: string,
+    field: string,
+    message: string,
+};
+
+/**
+ * Check requested services against the services' info, as fetched via getServiceInfo. Services for which no info is
+ * provided or the info is null are reported as unknown.
+ */
+export function findGrantRequestProblems(
+    services: ServiceRequest[],
+    serviceInfos: Record</* service id */ string, ServiceInfo | null>,
+): GrantRequestProblem[] {
+    const problems: GrantRequestProblem[] = [];
+    const checkedServiceIds = new Set<string>();
+    for (const { serviceId, usages = [] } of services) {
+        if (checkedServiceIds.has(serviceId)) {
+            problems.push({ type: 'duplicate-service', serviceId, message: `Service ${serviceId} requested twice.` });
+            continue;
+        }
+        checkedServiceIds.add(serviceId);
+        const serviceInfo = Object.prototype.hasOwnProperty.call(serviceInfos, serviceId)
+            ? serviceInfos[serviceId]
+            : null;
+        if (!serviceInfo) {
+            problems.push({
+                type: 'unknown-service',
+                serviceId,
+                message: `Service ${serviceId} does not exist or is deactivated.`,
+            });
+            continue;
+        }
+
+        const checkedUsageIds = new Set<string>();
+        for (const { usageId, parameters = {} } of usages) {
+            const usagePath = `${serviceId}/${usageId}`;
+            if (checkedUsageIds.has(usageId)) {
+                problems.push({
+                    type: 'duplicate-usage',
+                    serviceId,
+                    usageId,
+                    message: `Usage ${usagePath} requested twice.`,
+                });
+                continue;
+            }
+            checkedUsageIds.add(usageId);
+            const { usages: usageInfos } = serviceInfo;
+            const usageInfo: ServiceUsageInfo | undefined = Object.prototype.hasOwnProperty.call(usageInfos, usageId)
+                ? usageInfos[usageId]
+                : undefined;
+            if (!usageInfo) {
+                problems.push({
+                    type: 'unknown-usage',
+                    serviceId,
+                    usageId,
+                    message: `Usage ${usagePath} does not exist or is deactivated.`,
+                });
+                continue;
+            }
+
+            for (const field of usageInfo.fields) {
+                const isProvided = Object.prototype.hasOwnProperty.call(parameters, field)
+                    && parameters[field] !== undefined;
+                if (isProvided) continue;
+                problems.push({
+                    type: 'missing-parameter',
+                    serviceId,
+                    usageId,
+                    field,
+                    message: `Usage ${usagePath} is missing parameter ${field}.`,
+                });
+            }
+            for (const [field, value] of Object.entries(parameters)) {
+                if (!usageInfo.fields.includes(field)) {
+                    problems.push({
+                        type: 'unknown-parameter',
+                        serviceId,
+                        usageId,
+                        field,
+                        message: `Usage ${usagePath} does not expect parameter ${field}.`,
+                    });
+                } else if (value !== undefined && !isJsonSerializable(value)) {
+                    problems.push({
+                        type: 'non-serializable-parameter',
+                        serviceId,
+                        usageId,
+                        field,
+                        message: `Parameter ${field} of usage ${usagePath} can not be serialized as json.`,
+                    });
+                }
+            }
+        }
+    }
+    return problems;
+}
+
+/** Whether a value survives a JSON serialization roundtrip unchanged. */
+function isJsonSerializable(value: unknown, ancestors = new Set<unknown>()): boolean {
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') return true;
+    if (typeof value === 'number') return Number.isFinite(value);
+    // undefined, functions, symbols, bigints and cycles
+    if (typeof value !== 'object' || ancestors.has(value)) return false;
+    const prototype = Object.getPrototypeOf(value);
+    if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) return false; // Dates, Maps, ...
+    ancestors.add(value);
+    const isSerializable = Object.values(value).every((entry) => isJsonSerializable(entry, ancestors));
+    ancestors.delete(value);
+    return isSerializable;
+}
@@ -0,0 +1,50 @@
+/** Texts shown in the popup overlay, see PopupOverlayOptions. */
+export interface OverlayMessages {
+    text: string,
+    closeButtonLabel: string,
+}
+
+/** Message catalogs by language, e.g. 'de', or by locale, e.g. 'de-CH'. */
+export type MessageCatalogs = Record<string, Partial<OverlayMessages>>;
+
+const DEFAULT_LANGUAGE = 'en';
+
+/** Built-in overlay translations, which can be extended or overwritten via the messages option of Ten31PassApi. */
+export const OVERLAY_MESSAGES: Record<string, OverlayMessages> = {
+    en: {
+        text: 'A popup has been opened,\nclick anywhere to bring it back to the front.',
+        closeButtonLabel: 'Close popup',
+    },
+    de: {
+        text: 'Ein Popup wurde geöffnet,\nklicke irgendwo, um es wieder in den Vordergrund zu holen.',
+        closeButtonLabel: 'Popup schließen',
+    },
+    fr: {
+        text: 'Une fenêtre pop-up a été ouverte,\ncliquez n’importe où pour la ramener au premier plan.',
+        closeButtonLabel: 'Fermer la fenêtre pop-up',
+    },
+    es: {
+        text: 'Se ha abierto una ventana emergente,\nhaz clic en cualquier lugar para traerla al frente.',
+        closeButtonLabel: 'Cerrar ventana emergente',
+    },
+};
+
+/**
+ * Get the overlay messages for a locale, e.g. 'de-CH'. Messages are looked up by the full locale first, then by its
+ * language, in the given catalogs before the built-in ones, falling back to English for missing messages.
+ */
+export function getOverlayMessages(locale: string, catalogs: MessageCatalogs = {}): OverlayMessages {
+    const normalizedLocale = locale.replace('_', '-').toLowerCase();
+    const language = normalizedLocale.split('-')[0];
+    const lookupKeys = [...new Set([normalizedLocale, language, DEFAULT_LANGUAGE])];
+    // Catalog keys are matched case-insensitively.
+    const findMessages = (messageCatalogs: MessageCatalogs, key: string) => Object.entries(messageCatalogs)
+        .find(([catalogKey]) => catalogKey.replace('_', '-').toLowerCase() === key)?.[1];
+
+    // Merge in order of increasing priority.
+    const messages = {} as OverlayMessages;
+    for (const key of [...lookupKeys].reverse()) {
+        Object.assign(messages, findMessages(OVERLAY_MESSAGES, key), findMessages(catalogs, key));
+    }
+    return messages;
+}
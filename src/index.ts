@@ -1,144 +1,183 @@
-import { RedirectBehavior, PopupBehavior, ResponseType } from './request-behavior';
+import { RedirectBehavior, PopupBehavior } from './request-behavior';
+import Ten31PassServerApi, { type Ten31PassServerApiOptions } from './server';
+import {
+    ResponseStatus,
+    ResponseType,
+    type Endpoint,
+    type ServiceRegistry,
+    type ServiceRequest,
+    type GrantResponse,
+    type UsageParameters,
+} from './types';
+import {
+    ConcurrentRequestError,
+    InvalidRequestError,
+    PopupBlockedError,
+    RequestAbortedError,
+    UnknownRedirectResponseError,
+} from './errors';
+import { generateNonce } from './utils';
+import { EventEmitter, type EventListener } from './event-emitter';
+import { PendingRequestStore, type PendingRequestStoreOptions } from './pending-request-store';
+import { getOverlayMessages, type MessageCatalogs } from './i18n';
+export type { PopupOverlayOptions, OverlayTheme } from './overlay';
+export { OVERLAY_MESSAGES, getOverlayMessages, type OverlayMessages, type MessageCatalogs } from './i18n';
 
-export { ResponseType };
+// Re-export types, errors and the service grant token verifier, which are shared with the server entry point.
+export * from './server';
+export { preloadLogo } from './utils';
+export {
+    MemoryStorage,
+    typedJsonSerializer,
+    type StorageAdapter,
+    type Serializer,
+    type PendingRequestStoreOptions,
+} from './pending-request-store';
 
-export enum Endpoint {
-    MAIN = 'https://pass.ten31.com/',
-    TEST = 'https://test.pass.ten31.com/',
-    LOCAL = 'http://localhost:8082/',
+function getRedirectGrantResponseData(
+    origin?: string,
+    onError?: Parameters<typeof RedirectBehavior.getRedirectResponse>[4],
+): Record<string, string> | null {
+    return RedirectBehavior.getRedirectResponse(
+        'grant-response',
+        ['nonce', /^grant-for-app-.+$/],
+        [/^grant-for-service-.+$/],
+        origin,
+        onError,
+    );
 }
 
-export type UsageParameters = Record<string, unknown>;
-
-export interface ServiceRequest {
-    serviceId: string,
-    usages?: Array<{
-        usageId: string,
-        parameters?: UsageParameters,
-    }>,
+function toGrantResponse(redirectResponse: Record<string, string>): GrantResponse {
+    let appGrant: string;
+    const serviceGrants: Record<string, string> = {}; // map of service id -> service grant id
+    for (const [key, value] of Object.entries(redirectResponse)) {
+        if (key.startsWith('grant-for-app-')) {
+            appGrant = value;
+        } else if (key.startsWith('grant-for-service-')) {
+            serviceGrants[key.replace('grant-for-service-', '')] = value;
+        }
+    }
+    return { app: appGrant!, services: serviceGrants };
 }
 
-export interface GrantResponse {
-    /** App grant */
-    app: string,
-    /**
-     * Map of service id -> service grant. Empty object if no service grants were requested / given.
-     * Service usage grants are not included here. They can be fetched via getServiceGrantInfo if needed.
-     */
-    services: Record<string, string>,
+// Check for redirect grant response. Do this immediately, before other code potentially changes the url, e.g. via
+// history.replaceState, and also to immediately remove the redirect response artifacts from the url. The response is
+// then cached in the history state. Malformed or rejected responses, e.g. crafted urls, are ignored here, as throwing
+// would break the importing module. They are instead reported by getRedirectGrantResponse.
+try {
+    getRedirectGrantResponseData();
+} catch (e) {
+    // reported by getRedirectGrantResponse
 }
 
-export interface AppInfo {
-    id: string,
-    displayName: string,
-    /** Whether TEN31 Pass provides a logo for this app */
-    hasLogo: boolean,
-    /** The url where to redirect after redirect requests */
-    redirect: string,
-    /** Whether to encode the redirect result in the url fragment or search query */
-    fragment: boolean,
-}
+// Nonce of the redirect grant response, if it has been relayed to the opener, see Ten31PassApi._relayRedirectResponse.
+let relayedRedirectGrantResponseNonce: string | null = null;
 
-export interface ServiceInfo {
-    id: string,
-    displayName: string,
-    /** Whether TEN31 Pass provides a logo for this service */
-    hasLogo: boolean,
-    usages: Record</* service usage id */ string, ServiceUsageInfo>
+export interface Ten31PassApiOptions extends Ten31PassServerApiOptions {
+    /**
+     * Storage options for pending requests, which includes their redirectRecoverableState. Defaults to session storage
+     * with an expiry of one hour.
+     */
+    pendingRequestStore?: PendingRequestStoreOptions,
+    /**
+     * Default locale, e.g. 'de' or 'de-CH', for the popup overlay and the TEN31 Pass pages. Can be overwritten per
+     * request. If not set, the overlay uses the browser's language and TEN31 Pass its own language detection.
+     */
+    locale?: string,
+    /** Additional or overwritten overlay translations, by language or locale, see OVERLAY_MESSAGES. */
+    messages?: MessageCatalogs,
 }
 
-export interface ServiceUsageInfo {
-    id: string,
-    displayName: string,
-    /** Whether TEN31 Pass provides a logo for this service usage */
-    hasLogo: boolean,
-    /** A description, which can optionally contain placeholders for usage parameters */
-    description?: string | null,
-    /** Names of expected usage parameters */
-    fields: string[],
+export interface LocaleOptions {
+    /**
+     * Locale, e.g. 'de' or 'de-CH', for the popup overlay and the TEN31 Pass pages, which it is passed to as lang
+     * parameter. Defaults to the locale set on Ten31PassApi.
+     */
+    locale?: string,
 }
 
-export interface AppGrantInfo {
-    id: string,
-    /** Date string encoding the first usage time */
-    timestamp: string,
-    app: AppInfo,
-    // note: user is nullable in AppGrantInfo type in the TEN31 Pass code but ensured to be set by getAppGrantInfo
-    user: UserInfo,
+export interface PopupFallbackOptions {
+    /**
+     * Whether to fall back to redirecting the page if the popup is blocked, e.g. on mobile Safari or in in-app
+     * browsers, instead of throwing a PopupBlockedError. Defaults to false.
+     */
+    fallbackToRedirect?: boolean,
+    /** Called before redirecting on fallback to a redirect, to notify that the redirect mode is being used. */
+    onFallbackToRedirect?: () => void,
 }
 
-export interface UserInfo {
-    id: string,
-    email: string,
-    /** User's name */
-    // note: Can also be the email address until name was provided during signup, however for us here it's always the
-    // user's name as grants can only be given after signup was completed.
-    displayName: string,
-    /** Latest identification for latest user identity if not expired, or an empty list otherwise */
-    // note: By type in TEN31 Pass theoretically a list of all of the user's identifications, however what we're getting
-    // here via api by getUserInfo in TEN31 Pass is the latest identification for the latest identity if user provided
-    // these (completed signup which we can assume here, see above), it's been verified (expiry set, which we can also
-    // assume here as only verified users can give grants) and not expired, or an empty list otherwise.
-    identifications: [IdentificationInfo?],
+export interface PopupConcurrencyOptions {
+    /**
+     * How to handle a popup request expecting a postMessage response while another such request is still in progress:
+     * - 'reject': throw a ConcurrentRequestError.
+     * - 'replace' (default): close the other request's popup, rejecting it with a RequestAbortedError.
+     * - 'queue': wait for the other request to settle before opening the popup. Note that browsers might block popups
+     *   that are not opened in reaction to a user interaction, in which case the request rejects with a
+     *   PopupBlockedError, or falls back to a redirect with option fallbackToRedirect.
+     */
+    concurrency?: 'reject' | 'replace' | 'queue',
 }
 
-export interface IdentificationInfo {
-    /** The provider that performed the identification verification */
-    provider: string,
-    /** Date string encoding the expiry time */
-    expiry: string,
+/** Details included in all lifecycle events, see Ten31PassApi.on. */
+export interface Ten31PassEventDetail {
+    /** Unique id of the request the event belongs to */
+    requestId: string,
+    request: 'signup' | 'grants/request',
+    /** Whether the request is executed in a popup or by redirecting the page */
+    mode: 'popup' | 'redirect',
+    /** The preferred response type of the request, or null for signup requests which do not respond */
+    responseType: ResponseType | null,
+    /** Time of the event in milliseconds since the epoch */
+    timestamp: number,
+    /** Milliseconds since the request was started */
+    elapsed: number,
 }
 
-export interface ServiceGrantInfo {
-    id: string,
-    /** Date string encoding the time when the service grant was created */
-    timestamp: string,
-    /** Id of the service this grant is for */
-    serviceId: string,
-    /** Id of the app that requested this service grant */
-    appId: string,
-    /** JWT (JSON web token) representing the service grant */
-    // note: token is nullable in TEN31 Pass but only for an invalid config. We can assume here that TEN31 Pass is
-    // correctly configured.
-    token: string,
-    /** Map of service usage id (instead of service usage grant id; by mistake?) -> usage parameters */
-    usages: Record<string, UsageParameters>,
+/** Lifecycle events of signup and grant requests, see Ten31PassApi.on. */
+export interface Ten31PassEvents {
+    'request-started': Ten31PassEventDetail,
+    'popup-opened': Ten31PassEventDetail,
+    /** The user asked to re-focus the popup via the overlay. On iOS, the popup is re-opened instead. */
+    'popup-refocused': Ten31PassEventDetail & { reopened: boolean },
+    'overlay-shown': Ten31PassEventDetail,
     /**
-     * Consumed / used service usage grants.
-     * Map of service usage id (instead of service usage grant id; by mistake?) -> consumption metadata.
-     * Only available for requests that include the valid service api key of the service this grant is for.
+     * The popup has been closed, by the user, by TEN31 Pass after responding, or on abort. Not emitted for popups
+     * which are still open a few seconds after the request settled.
      */
-    consumption?: Record<string, Record<string, unknown>>,
-    /**
-     * Info about the user who confirmed this service grant.
-     * Only available for requests that include the valid service api key of the service this grant is for.
-     */
-    user?: UserInfo,
+    'popup-closed': Ten31PassEventDetail,
+    /** The page is about to be redirected to TEN31 Pass, also on fallback from a blocked popup. */
+    'redirect-started': Ten31PassEventDetail,
+    /** A grant response was received via postMessage, or via redirect in getRedirectGrantResponse. */
+    'response-received': Ten31PassEventDetail & { response: GrantResponse },
+    /** A request failed, for example because the popup was blocked or closed or TEN31 Pass rejected the request. */
+    'request-rejected': Ten31PassEventDetail & { error: unknown },
 }
 
-// Check for redirect grant response. Do this immediately, before other code potentially changes the url, e.g. via
-// history.replaceState, and also to immediately remove the redirect response artifacts from the url.
-RedirectBehavior.getRedirectResponse('grant-response', [/^grant-for-app-.+$/], [/^grant-for-service-.+$/]);
-
-export default class Ten31PassApi {
-    public readonly endpoint: Endpoint | string;
+export default class Ten31PassApi extends Ten31PassServerApi {
     private readonly _endpointOrigin: string;
     private readonly _redirectBehavior: RedirectBehavior;
     private readonly _popupBehavior: PopupBehavior;
+    private readonly _pendingRequestStore: PendingRequestStore<RedirectBehavior.PendingRequest>;
+    private readonly _locale?: string;
+    private readonly _messages?: MessageCatalogs;
+    private readonly _events = new EventEmitter<Ten31PassEvents>();
+    // Redirect responses which have already been read on this page, by request id. Their pending requests are removed
+    // from the store on the first read.
+    private readonly _redirectGrantResponses = new Map<string, ReturnType<Ten31PassApi['getRedirectGrantResponse']>>();
+    // The popup request expecting a postMessage response which is currently in progress, see PopupConcurrencyOptions
+    private _activePopupRequest: { abortController: AbortController, settled: Promise<void> } | null = null;
 
-    private static getRequestId(appId: string, serviceIds: string[] = []) {
-        // Calculate a request id from data that is available at request time as well as after redirect responses.
-        // Unfortunately this request id is not unique as all requests for the same app id and services will have the
-        // same request id.
-        return [appId, ...serviceIds.sort()].join('_');
-    }
-
-    constructor(endpoint: Endpoint | string) {
-        endpoint = endpoint.replace(/\/?$/, '/'); // make sure there is a trailing slash
-        this.endpoint = endpoint;
-        this._endpointOrigin = new URL(endpoint).origin;
-        this._redirectBehavior = new RedirectBehavior(endpoint);
-        this._popupBehavior = new PopupBehavior(endpoint);
+    constructor(endpoint: Endpoint | string, options?: Ten31PassApiOptions) {
+        super(endpoint, options);
+        this._endpointOrigin = new URL(this.endpoint).origin;
+        this._pendingRequestStore = options?.pendingRequestStore
+            ? new PendingRequestStore(options.pendingRequestStore)
+            : PendingRequestStore.default;
+        this._redirectBehavior = new RedirectBehavior(this.endpoint, this._pendingRequestStore);
+        this._popupBehavior = new PopupBehavior(this.endpoint, this._pendingRequestStore);
+        this._relayRedirectGrantResponse();
+        this._locale = options?.locale;
+        this._messages = options?.messages;
     }
 
     /**
@@ -146,13 +185,46 @@ export default class Ten31PassApi {
      * Because we can not determine, whether a user signed up, this method returns void.
      * This call does not support a recoverable redirect state, because TEN31 Pass does not redirect back from the
      * signup flow.
+     * With option fallbackToRedirect, blocked popups fall back to redirecting the page instead of throwing.
      */
-    signup(asPopup = true): void {
+    signup(
+        asPopup = true,
+        { fallbackToRedirect, onFallbackToRedirect, locale = this._locale }: PopupFallbackOptions & LocaleOptions = {},
+    ): void {
+        // The request id is only used for events, as signup requests do not respond.
+        const createEventDetail = this._createEventDetailFactory(generateNonce(), 'signup', null);
+        this._events.emit('request-started', createEventDetail(asPopup ? 'popup' : 'redirect'));
+        // The signup page is opened via GET, therefore the language is passed in the url.
+        const request = locale ? `signup?${new URLSearchParams({ lang: locale })}` : 'signup';
         if (asPopup) {
-            this._popupBehavior.call('signup');
-        } else {
-            this._redirectBehavior.call('signup');
+            try {
+                this._popupBehavior.call(request, undefined, {
+                    onEvent: this._createPopupEventCallback(createEventDetail),
+                });
+                return;
+            } catch (e) {
+                if (!fallbackToRedirect || !(e instanceof PopupBlockedError)) {
+                    this._events.emit('request-rejected', { ...createEventDetail('popup'), error: e });
+                    throw e;
+                }
+                onFallbackToRedirect?.();
+            }
         }
+        this._events.emit('redirect-started', createEventDetail('redirect'));
+        this._redirectBehavior.call(request);
+    }
+
+    /**
+     * Listen for lifecycle events of signup and grant requests, for example for analytics or for updating the UI state.
+     * All events include the request id, the request's preferred response type and timing information. Returns a
+     * function for removing the listener again.
+     */
+    on<K extends keyof Ten31PassEvents>(type: K, listener: EventListener<Ten31PassEvents[K]>): () => void {
+        return this._events.on(type, listener);
+    }
+
+    off<K extends keyof Ten31PassEvents>(type: K, listener: EventListener<Ten31PassEvents[K]>): void {
+        this._events.off(type, listener);
     }
 
     /**
@@ -163,228 +235,312 @@ export default class Ten31PassApi {
      * - POST_MESSAGE depends on whether JavaScript and window.opener are available on TEN31 Pass.
      * - IMMEDIATE_REDIRECT depends on whether Javascript is available on TEN31 Pass.
      * If preferredResponseType is not available, the fallback is ResponseType.REDIRECT which is always available.
-     * On fallback to ResponseType.REDIRECT, popup requests for ResponseType.POST_MESSAGE will not resolve and the
-     * response must be checked via getRedirectGrantResponse in the popup after the popup redirects back.
+     * On fallback to ResponseType.REDIRECT, popup requests for ResponseType.POST_MESSAGE still resolve, given that this
+     * library is loaded on the page the popup redirects back to, which then relays the response to the opener and
+     * closes the popup.
      *
      * Usage of ResponseType.POST_MESSAGE even when not opening a popup is theoretically possible if the calling page
      * itself is already a popup, but this is currently not encouraged by the api and the postMessage response would
      * needed to be checked manually by the page that opened the popup.
+     *
+     * Throws an InvalidRequestError for duplicate service or usage ids and a PopupBlockedError if the popup failed to
+     * open. The returned promise rejects with a PopupClosedError if the popup was closed before responding, with a
+     * RequestRejectedError if TEN31 Pass rejected the request and with an UnexpectedResponseError for malformed
+     * responses.
+     * With option fallbackToRedirect, blocked popups do not throw but fall back to redirecting the page, keeping the
+     * redirectRecoverableState. In that case, onFallbackToRedirect is called before redirecting, and the returned
+     * promise never settles as the page is unloaded.
+     * Requests can be cancelled via option signal, which closes the popup and removes the overlay. Requests expecting a
+     * response then reject with a RequestAbortedError. For signals which are aborted already, a RequestAbortedError is
+     * thrown.
+     * Concurrent popup requests expecting a response are handled according to option concurrency.
+     * For checking service and usage ids and usage parameters at compile time, pass a ServiceRegistry as type argument.
      */
-    requestGrants(
+    requestGrants<Registry extends ServiceRegistry = ServiceRegistry>(
         appId: string,
-        services?: ServiceRequest[],
+        services?: ServiceRequest<Registry>[],
         asPopup?: true,
         options?: {
             preferredResponseType?: ResponseType.POST_MESSAGE, // asPopup: true is only option that allows POST_MESSAGE
             redirectRecoverableState?: any, // only used in case that ResponseType.REDIRECT is getting used as fallback
             popupOverlay?: PopupBehavior.OverlayOptions['overlay'],
-        },
+            signal?: AbortSignal,
+        } & PopupFallbackOptions & PopupConcurrencyOptions & LocaleOptions,
     ): Promise<GrantResponse>; // ResponseType.POST_MESSAGE is the only response type for which we get an async response
-    requestGrants(
+    requestGrants<Registry extends ServiceRegistry = ServiceRegistry>(
         appId: string,
-        services?: ServiceRequest[],
+        services?: ServiceRequest<Registry>[],
         asPopup?: true,
         options?: {
             preferredResponseType?: Exclude<ResponseType, ResponseType.POST_MESSAGE>,
             redirectRecoverableState?: any,
             popupOverlay?: PopupBehavior.OverlayOptions['overlay'],
-        },
+            signal?: AbortSignal,
+        } & PopupFallbackOptions & LocaleOptions,
     ): void; // always void for response types other than postMessage
-    requestGrants(
+    requestGrants<Registry extends ServiceRegistry = ServiceRegistry>(
         appId: string,
-        services?: ServiceRequest[],
+        services?: ServiceRequest<Registry>[],
         asPopup?: boolean,
         options?: {
             preferredResponseType?: Exclude<ResponseType, ResponseType.POST_MESSAGE>, // allowed also for asPopup: false
             redirectRecoverableState?: any,
-        },
+            signal?: AbortSignal,
+        } & LocaleOptions,
     ): void; // always void for non-popups or response types other than postMessage
-    requestGrants( // generic definition for when asPopup or preferredResponseType are passed as variables
+    // generic definition for when asPopup or preferredResponseType are passed as variables
+    requestGrants<Registry extends ServiceRegistry = ServiceRegistry>(
         appId: string,
-        services?: ServiceRequest[],
+        services?: ServiceRequest<Registry>[],
         asPopup?: boolean,
         options?: {
             preferredResponseType?: ResponseType,
             redirectRecoverableState?: any,
             popupOverlay?: PopupBehavior.OverlayOptions['overlay'],
-        },
+            signal?: AbortSignal,
+        } & PopupFallbackOptions & PopupConcurrencyOptions & LocaleOptions,
     ): Promise<GrantResponse> | void;
     requestGrants(
         appId: string,
         services: ServiceRequest[] = [],
         asPopup: boolean = true,
-        {
-            preferredResponseType = asPopup ? ResponseType.POST_MESSAGE : ResponseType.REDIRECT,
-            redirectRecoverableState,
-            popupOverlay = asPopup,
-        }: {
+        options: {
             preferredResponseType?: ResponseType,
             redirectRecoverableState?: any,
             popupOverlay?: PopupBehavior.OverlayOptions['overlay'],
-        } = {},
+            signal?: AbortSignal,
+        } & PopupFallbackOptions & PopupConcurrencyOptions & LocaleOptions = {},
     ): Promise<GrantResponse> | void {
+        const {
+            preferredResponseType = asPopup ? ResponseType.POST_MESSAGE : ResponseType.REDIRECT,
+            redirectRecoverableState,
+            popupOverlay = asPopup,
+            signal,
+            fallbackToRedirect,
+            onFallbackToRedirect,
+            concurrency = 'replace',
+            locale = this._locale,
+        } = options;
         // convert our more user-friendly request format into ten31's
         const request = {
             app: appId,
             services: services.reduce((convertedServices, { serviceId, usages }) => {
-                if (serviceId in convertedServices) throw new Error('TEN31 Pass request invalid');
+                if (serviceId in convertedServices) throw new InvalidRequestError();
                 convertedServices[serviceId] = (usages || []).reduce((convertedUsages, { usageId, parameters }) => {
-                    if (usageId in convertedUsages) throw new Error('TEN31 Pass request invalid');
+                    if (usageId in convertedUsages) throw new InvalidRequestError();
                     convertedUsages[usageId] = parameters || {};
                     return convertedUsages;
                 }, {} as Record</* usage id */ string, UsageParameters>);
                 return convertedServices;
             }, {} as Record</* service id */ string, Record</* usage id */ string, UsageParameters>>),
+            ...(locale ? { lang: locale } : null),
         };
 
-        const recoverableStateOptions = redirectRecoverableState !== undefined ? {
-            requestId: Ten31PassApi.getRequestId(appId, services.map(({ serviceId }) => serviceId)),
+        if (signal?.aborted) throw new RequestAbortedError(undefined, { cause: signal.reason });
+
+        const isPopupResponseRequest = asPopup && preferredResponseType === ResponseType.POST_MESSAGE;
+        const activePopupRequest = isPopupResponseRequest ? this._activePopupRequest : null;
+        if (activePopupRequest && concurrency === 'reject') throw new ConcurrentRequestError();
+        if (activePopupRequest && concurrency === 'queue') {
+            return new Promise<void>((resolve, reject) => {
+                const onAbort = () => reject(new RequestAbortedError(undefined, { cause: signal!.reason }));
+                signal?.addEventListener('abort', onAbort);
+                activePopupRequest.settled.then(() => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                });
+            }).then(() => this.requestGrants(appId, services, asPopup, options) as Promise<GrantResponse>);
+        }
+
+        // Every request gets a unique, random request id which is stored before the request and round-tripped through
+        // TEN31 Pass as nonce, such that redirect responses can be matched to their request and crafted redirect
+        // responses are rejected.
+        const pendingRequestOptions = {
+            requestId: generateNonce(),
             recoverableState: redirectRecoverableState,
-        } : {};
+        };
+
+        const createEventDetail = this._createEventDetailFactory(
+            pendingRequestOptions.requestId,
+            'grants/request',
+            preferredResponseType,
+        );
+        this._events.emit('request-started', createEventDetail(asPopup ? 'popup' : 'redirect'));
 
         if (asPopup) {
-            if (preferredResponseType === ResponseType.POST_MESSAGE) {
-                // Returns the grant response promise
-                return this._popupBehavior.call<GrantResponse>('grants/request', request, {
-                    preferredResponseType,
-                    responseEvent: 'grant-response',
-                    requiredKeys: ['app'],
-                    ...recoverableStateOptions,
-                    overlay: popupOverlay,
-                });
-            } else {
-                // Returns void
-                return this._popupBehavior.call('grants/request', request, {
-                    preferredResponseType,
-                    ...recoverableStateOptions,
-                    overlay: popupOverlay,
-                });
+            const onEvent = this._createPopupEventCallback(createEventDetail);
+            try {
+                if (preferredResponseType === ResponseType.POST_MESSAGE) {
+                    // Abortable via the passed signal, and by concurrent requests with concurrency policy 'replace'.
+                    const abortController = new AbortController();
+                    const onAbort = () => abortController.abort(signal!.reason);
+                    const responsePromise = this._popupBehavior.call<GrantResponse>('grants/request', request, {
+                        preferredResponseType,
+                        responseEvent: 'grant-response',
+                        requiredKeys: ['app'],
+                        ...pendingRequestOptions,
+                        overlay: this._getOverlayOptions(popupOverlay, locale),
+                        onEvent,
+                        signal: abortController.signal,
+                    }).finally(() => signal?.removeEventListener('abort', onAbort));
+                    signal?.addEventListener('abort', onAbort);
+
+                    // Only replace the active request once the popup opened successfully.
+                    activePopupRequest?.abortController.abort(
+                        new RequestAbortedError('TEN31 Pass request replaced by a newer request.'),
+                    );
+                    const settled = responsePromise.then(() => {}, () => {});
+                    this._activePopupRequest = { abortController, settled };
+                    settled.then(() => {
+                        if (this._activePopupRequest?.settled !== settled) return;
+                        this._activePopupRequest = null;
+                    });
+
+                    // Returns the grant response promise
+                    return responsePromise.then((response) => {
+                        this._events.emit('response-received', { ...createEventDetail('popup'), response });
+                        return response;
+                    }, (error) => {
+                        this._events.emit('request-rejected', { ...createEventDetail('popup'), error });
+                        throw error;
+                    });
+                } else {
+                    // Returns void
+                    return this._popupBehavior.call('grants/request', request, {
+                        preferredResponseType,
+                        ...pendingRequestOptions,
+                        overlay: this._getOverlayOptions(popupOverlay, locale),
+                        onEvent,
+                        signal,
+                    });
+                }
+            } catch (e) {
+                if (!fallbackToRedirect || !(e instanceof PopupBlockedError)) {
+                    this._events.emit('request-rejected', { ...createEventDetail('popup'), error: e });
+                    throw e;
+                }
+                onFallbackToRedirect?.();
             }
-        } else {
-            this._redirectBehavior.call('grants/request', request, {
-                preferredResponseType: preferredResponseType as Exclude<ResponseType, ResponseType.POST_MESSAGE>,
-                ...recoverableStateOptions,
-            });
+        }
+
+        this._events.emit('redirect-started', createEventDetail('redirect'));
+        this._redirectBehavior.call('grants/request', request, {
+            // POST_MESSAGE is not available for redirects and only possible here on fallback to a redirect
+            preferredResponseType: preferredResponseType === ResponseType.POST_MESSAGE
+                ? ResponseType.REDIRECT
+                : preferredResponseType,
+            ...pendingRequestOptions,
+        });
+        if (asPopup && preferredResponseType === ResponseType.POST_MESSAGE) {
+            // On fallback to a redirect, the page is being unloaded and the response is checked via
+            // getRedirectGrantResponse after the redirect back. Therefore, the promise never settles.
+            return new Promise<GrantResponse>(() => {});
         }
     }
 
     /**
      * Check for a GrantResponse received via redirect, for requests that redirected the page instead of using a popup.
+     * Throws an UnknownRedirectResponseError if the response's nonce does not match a request made from this browser
+     * tab, for example for crafted redirect responses. The recovered state is the redirectRecoverableState passed to
+     * that specific request, or null if none was passed.
+     * The stored request, including its recoverable state, is removed on the first read, such that the response is
+     * only returned on the page load it was received on. On later page loads, e.g. on reload, null is returned. In
+     * popups, which relayed the response to their opener, null is returned, too.
+     * Emits a response-received event, once per response. For error responses, a request-rejected event is emitted
+     * once, if the response matches a pending request.
      */
     getRedirectGrantResponse(): { response: GrantResponse, recoveredState: any | null } | null {
-        const redirectResponse = RedirectBehavior.getRedirectResponse(
-            'grant-response',
-            [/^grant-for-app-.+$/],
-            [/^grant-for-service-.+$/],
-            this._endpointOrigin,
-        );
+        const redirectResponse = getRedirectGrantResponseData(this._endpointOrigin, (error, { nonce }) => {
+            // Taking the pending request ensures that the event is only emitted once, while the error is thrown on
+            // each call.
+            const pendingRequest = nonce ? this._pendingRequestStore.take(nonce) : null;
+            if (!pendingRequest) return;
+            const createEventDetail = this._createEventDetailFactory(
+                nonce,
+                'grants/request',
+                pendingRequest.responseType || ResponseType.REDIRECT,
+                pendingRequest.timestamp,
+            );
+            this._events.emit('request-rejected', { ...createEventDetail('redirect'), error });
+        });
         if (!redirectResponse) return null;
 
-        // Convert redirect response to GrantResponse
-        let appId: string;
-        let appGrant: string;
-        const serviceGrants: Record<string, string> = {}; // map of service id -> service grant id
-        for (const [key, value] of Object.entries(redirectResponse)) {
-            if (key.startsWith('grant-for-app-')) {
-                appId = key.replace('grant-for-app-', '');
-                appGrant = value;
-            } else if (key.startsWith('grant-for-service-')) {
-                serviceGrants[key.replace('grant-for-service-', '')] = value;
-            }
-        }
-
-        // Recover state
-        const requestId = Ten31PassApi.getRequestId(appId!, Object.keys(serviceGrants));
-        const recoveredState = RedirectBehavior.getRecoverableState(requestId);
+        const { nonce } = redirectResponse;
+        // The response was meant for the opener of this popup, and has been relayed there.
+        if (nonce === relayedRedirectGrantResponseNonce) return null;
+        const redirectGrantResponse = this._redirectGrantResponses.get(nonce);
+        if (redirectGrantResponse) return redirectGrantResponse;
 
-        return {
-            response: { app: appGrant!, services: serviceGrants },
-            recoveredState,
-        };
-    }
+        const pendingRequest = this._pendingRequestStore.take(nonce);
+        if (!pendingRequest) {
+            if (this._pendingRequestStore.isConsumed(nonce)) return null;
+            throw new UnknownRedirectResponseError();
+        }
 
-    /**
-     * Fetch info about an app in the TEN31 Pass database.
-     * Deactivated apps are reported as null.
-     */
-    async getAppInfo(appId: string): Promise<AppInfo | null> {
-        return this._fetchData(`api/public/app/${appId}`);
-    }
+        const response = toGrantResponse(redirectResponse);
+        const createEventDetail = this._createEventDetailFactory(
+            nonce,
+            'grants/request',
+            pendingRequest.responseType || ResponseType.REDIRECT,
+            pendingRequest.timestamp,
+        );
+        this._events.emit('response-received', { ...createEventDetail('redirect'), response });
 
-    /**
-     * Fetch info about a service and associated supported service usages in the TEN31 Pass database.
-     * Deactivated services are reported as null. Deactivated service usages are omitted.
-     */
-    async getServiceInfo(serviceId: string): Promise<ServiceInfo | null> {
-        return this._fetchData(`api/public/service/${serviceId}`);
+        const result = { response, recoveredState: pendingRequest.recoverableState ?? null };
+        this._redirectGrantResponses.set(nonce, result);
+        return result;
     }
 
     /**
-     * Fetch info about an app grant and the associated app as well as the user who granted the app access.
-     * Expired / deactivated grants and grants for deactivated apps are reported as null.
+     * If we are a popup for which TEN31 Pass fell back to a redirect response instead of responding via postMessage,
+     * relay the response to the opener, such that its requestGrants call resolves. Only responses from this instance's
+     * endpoint are relayed, and only if they match a pending popup request in this instance's pending request store.
      */
-    async getAppGrantInfo(appGrantId: string): Promise<AppGrantInfo | null> {
-        return this._fetchData(`api/public/grant/app/${appGrantId}`);
+    private _relayRedirectGrantResponse(): void {
+        let redirectResponse: Record<string, string> | null;
+        try {
+            redirectResponse = getRedirectGrantResponseData(this._endpointOrigin);
+        } catch (e) {
+            return; // reported by getRedirectGrantResponse
+        }
+        if (!redirectResponse || redirectResponse.nonce === relayedRedirectGrantResponseNonce) return;
+        const isRelayed = PopupBehavior.relayResponse(redirectResponse.nonce, {
+            event: 'grant-response',
+            status: ResponseStatus.Success,
+            ...toGrantResponse(redirectResponse),
+        }, this._pendingRequestStore);
+        if (isRelayed) {
+            relayedRedirectGrantResponseNonce = redirectResponse.nonce;
+        }
     }
 
-    /**
-     * Fetch info about a service grant and the associated service usage grants and parameters.
-     * Grants for deactivated services are reported as null.
-     * Optionally, info about which usage grants have been consumed already and the associated consumption metadata as
-     * well as info about the user who granted the service access can be fetched by including the valid service api key
-     * of the service this grant is for. Invalid service api keys behave like not being submitted.
-     * When submitting the api key for your registered service, be sure that it can safely be used in your code without
-     * being leaked.
-     */
-    async getServiceGrantInfo(serviceGrantId: string): Promise<Omit<ServiceGrantInfo, 'consumption' | 'user'> | null>
-    async getServiceGrantInfo(serviceGrantId: string, serviceApiKey: string): Promise<ServiceGrantInfo | null>
-    async getServiceGrantInfo(serviceGrantId: string, serviceApiKey?: string)
-        : Promise<ServiceGrantInfo | Omit<ServiceGrantInfo, 'consumption' | 'user'> | null> {
-        return this._fetchData(`api/public/grant/service/${serviceGrantId}`, serviceApiKey);
+    private _getOverlayOptions(
+        overlay: PopupBehavior.OverlayOptions['overlay'],
+        locale?: string,
+    ): PopupBehavior.OverlayOptions['overlay'] {
+        if (!overlay) return false;
+        return {
+            ...getOverlayMessages(locale || navigator.language || 'en', this._messages),
+            ...(typeof overlay === 'object' ? overlay : null),
+        };
     }
 
-    /**
-     * Consume service usage grants of a service grant, optionally adding arbitrary metadata like oasis contract id,
-     * swap addresses, etc.
-     * The call terminates with null, if the service grant's associated service is deactivated, and throws for invalid
-     * service api keys, usage grants not associated with the service grant identified by serviceGrantId, or if
-     * attempting to consume a usage grant which has already been consumed.
-     * When submitting the api key for your registered service, be sure that it can safely be used in your code without
-     * being leaked.
-     */
-    async consumeServiceGrant(
-        serviceGrantId: string,
-        usageGrants: Array<{ usageGrantId: string, metadata?: Record<string, unknown> }>,
-        serviceApiKey: string,
-    ): Promise<Required<ServiceGrantInfo> | null> {
-        return this._fetchData(`api/public/grant/service/${serviceGrantId}/consume`, serviceApiKey, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            // convert our more user-friendly request format into ten31's
-            body: JSON.stringify(usageGrants.reduce((convertedUsageGrants, { usageGrantId, metadata }) => {
-                if (usageGrantId in convertedUsageGrants) throw new Error('TEN31 Pass request invalid');
-                convertedUsageGrants[usageGrantId] = metadata || {};
-                return convertedUsageGrants;
-            }, {} as Record</* usage grant id */ string, /* metadata */ Record<string, unknown>>)),
-        });
+    private _createEventDetailFactory(
+        requestId: string,
+        request: Ten31PassEventDetail['request'],
+        responseType: ResponseType | null,
+        startTimestamp = Date.now(),
+    ): (mode: Ten31PassEventDetail['mode']) => Ten31PassEventDetail {
+        return (mode) => {
+            const timestamp = Date.now();
+            return { requestId, request, mode, responseType, timestamp, elapsed: timestamp - startTimestamp };
+        };
     }
 
-    private async _fetchData(path: string, serviceApiKey?: string, options: RequestInit = {}): Promise<any | null> {
-        try {
-            const response = await fetch(this.endpoint + path, {
-                ...options,
-                headers: {
-                    ...options.headers,
-                    ...(serviceApiKey ? { 'X-Service-Api-Key': serviceApiKey } : null),
-                }
-            });
-            if (response.status === 404) return null;
-            if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
-            return await response.json();
-        } catch (e: any) {
-            throw new Error(`TEN31 Pass request to ${path} failed: ${e.message}`, { cause: e });
-        }
+    private _createPopupEventCallback(
+        createEventDetail: (mode: Ten31PassEventDetail['mode']) => Ten31PassEventDetail,
+    ): PopupBehavior.EventCallback {
+        return (type: PopupBehavior.EventType, detail?: { reopened: boolean }) =>
+            this._events.emit(type, { ...createEventDetail('popup'), ...detail } as Ten31PassEvents[typeof type]);
     }
 }
@@ -0,0 +1,418 @@
+// A minimal stand-in for TEN31 Pass, for offline development and integration tests. It serves the public api with
+// in-memory fixtures, as well as the signup and grant request pages which respond with scripted outcomes.
+// Only for usage in Node.
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { webcrypto } from 'node:crypto';
+import {
+    ResponseStatus,
+    ResponseType,
+    type AppInfo,
+    type ServiceInfo,
+    type UserInfo,
+    type UsageParameters,
+    type ServiceGrantInfo,
+    type AppGrantInfo,
+} from './types';
+
+export interface MockServerFixtures {
+    /** Map of app id -> app. Apps with active: false are treated as deactivated. */
+    apps: Record<string, AppInfo & { active?: boolean }>,
+    /** Map of service id -> service with its api key. Services with active: false are treated as deactivated. */
+    services: Record<string, ServiceInfo & { apiKey: string, active?: boolean }>,
+    /** The user who signs up and gives grants */
+    user: UserInfo,
+}
+
+export interface MockOutcome {
+    /** The response status. Defaults to ResponseStatus.Success. */
+    status?: ResponseStatus,
+    /**
+     * Response type to use, regardless of the requested preferred response type, for example to simulate a fallback to
+     * ResponseType.REDIRECT. By default, the preferred response type is used if available.
+     */
+    responseType?: ResponseType,
+    /** Delay in ms before following redirects of ResponseType.REDIRECT. Defaults to 1000. */
+    redirectDelay?: number,
+}
+
+export interface MockServerOptions {
+    /** Defaults to 8082, the port of Endpoint.LOCAL. */
+    port?: number,
+    /** Defaults to DEFAULT_MOCK_FIXTURES */
+    fixtures?: MockServerFixtures,
+    /** The outcome of signup and grant requests. Can be changed later via setOutcome. */
+    outcome?: MockOutcome,
+}
+
+export const DEFAULT_MOCK_FIXTURES: MockServerFixtures = {
+    apps: {
+        'mock-app': {
+            id: 'mock-app',
+            displayName: 'Mock App',
+            hasLogo: false,
+            redirect: 'http://localhost:8080/',
+            fragment: false,
+        },
+    },
+    services: {
+        'mock-service': {
+            id: 'mock-service',
+            displayName: 'Mock Service',
+            hasLogo: true,
+            apiKey: 'mock-api-key',
+            usages: {
+                'mock-usage': {
+                    id: 'mock-usage',
+                    displayName: 'Mock Usage',
+                    hasLogo: false,
+                    description: 'Use the service for an amount of {amount}',
+                    fields: ['amount'],
+                },
+            },
+        },
+    },
+    user: {
+        id: 'mock-user',
+        email: 'user@example.com',
+        displayName: 'Mock User',
+        identifications: [{
+            provider: 'mock-provider',
+            expiry: '2099-01-01T00:00:00.000Z',
+        }],
+    },
+};
+
+export class MockServer {
+    private readonly _port: number;
+    private readonly _fixtures: MockServerFixtures;
+    private _outcome: MockOutcome;
+    private readonly _appGrants = new Map<string, { id: string, timestamp: string, appId: string }>();
+    private readonly _serviceGrants = new Map<string, Omit<Required<ServiceGrantInfo>, 'user'>>();
+    private readonly _server: Server;
+    private _signingKey?: Promise<CryptoKeyPair>;
+
+    constructor({ port = 8082, fixtures = DEFAULT_MOCK_FIXTURES, outcome = {} }: MockServerOptions = {}) {
+        this._port = port;
+        this._fixtures = fixtures;
+        this._outcome = outcome;
+        this._server = createServer((request, response) => this._handleRequest(request, response).catch((e) => {
+            console.error(e);
+            this._sendJson(response, 500, { error: e.message });
+        }));
+    }
+
+    get endpoint(): string {
+        return `http://localhost:${this._port}/`;
+    }
+
+    listen(): Promise<this> {
+        return new Promise((resolve, reject) => {
+            this._server.once('error', reject);
+            this._server.listen(this._port, () => {
+                this._server.off('error', reject);
+                resolve(this);
+            });
+        });
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve, reject) => this._server.close((e) => e ? reject(e) : resolve()));
+    }
+
+    setOutcome(outcome: MockOutcome): void {
+        this._outcome = outcome;
+    }
+
+    /** Public key in JWK format to verify service grant tokens issued by this server with. */
+    async getPublicKey(): Promise<JsonWebKey & { kid: string }> {
+        const { publicKey } = await this._getSigningKey();
+        return { ...await webcrypto.subtle.exportKey('jwk', publicKey), alg: 'ES256', kid: 'mock' };
+    }
+
+    private async _handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        const url = new URL(request.url || '/', this.endpoint);
+        const path = url.pathname.replace(/^\/|\/$/g, '');
+        if (request.method === 'OPTIONS') {
+            // CORS preflight
+            this._sendJson(response, 204, null);
+            return;
+        }
+
+        let match: RegExpMatchArray | null;
+        if (path === 'signup') {
+            this._sendPage(response, 'signup-response', await this._parseRequestData(request, url), {},
+                request.headers.referer);
+        } else if (path === 'grants/request') {
+            const data = await this._parseRequestData(request, url);
+            this._sendPage(response, 'grant-response', data, await this._createGrants(data));
+        } else if (path === '.well-known/jwks.json') {
+            this._sendJson(response, 200, { keys: [await this.getPublicKey()] });
+        } else if (request.method === 'GET'
+            && (match = path.match(/^api\/public\/(app|service)\/([^/]+)(?:\/usage\/([^/]+))?\/logo$/))) {
+            const [, type, id, usageId] = match;
+            const entity = type === 'app'
+                ? this._getApp(id)
+                : usageId ? this._getService(id)?.usages[usageId] : this._getService(id);
+            if (!entity?.hasLogo) {
+                this._sendJson(response, 404, null);
+                return;
+            }
+            response.writeHead(200, { 'Content-Type': 'image/svg+xml', 'Access-Control-Allow-Origin': '*' });
+            response.end('<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64" '
+                + `fill="#1f2348"/><text x="32" y="40" font-size="24" text-anchor="middle" fill="white">${
+                    escapeHtml(entity.displayName.charAt(0))}</text></svg>`);
+        } else if (request.method === 'GET' && (match = path.match(/^api\/public\/app\/([^/]+)$/))) {
+            const app = this._getApp(match[1]);
+            this._sendJson(response, app ? 200 : 404, app);
+        } else if (request.method === 'GET' && (match = path.match(/^api\/public\/service\/([^/]+)$/))) {
+            const service = this._getService(match[1]);
+            this._sendJson(response, service ? 200 : 404, service && this._toServiceInfo(service));
+        } else if (request.method === 'GET' && (match = path.match(/^api\/public\/grant\/app\/([^/]+)$/))) {
+            const appGrant = this._appGrants.get(match[1]);
+            const app = appGrant && this._getApp(appGrant.appId);
+            this._sendJson(response, app ? 200 : 404, app ? {
+                id: appGrant!.id,
+                timestamp: appGrant!.timestamp,
+                app,
+                user: this._fixtures.user,
+            } as AppGrantInfo : null);
+        } else if (request.method === 'GET' && (match = path.match(/^api\/public\/grant\/service\/([^/]+)$/))) {
+            const serviceGrant = this._serviceGrants.get(match[1]);
+            const service = serviceGrant && this._getService(serviceGrant.serviceId);
+            if (!serviceGrant || !service) {
+                this._sendJson(response, 404, null);
+            } else if (request.headers['x-service-api-key'] === service.apiKey) {
+                this._sendJson(response, 200, { ...serviceGrant, user: this._fixtures.user });
+            } else {
+                const { consumption, ...publicServiceGrant } = serviceGrant;
+                this._sendJson(response, 200, publicServiceGrant);
+            }
+        } else if (request.method === 'POST'
+            && (match = path.match(/^api\/public\/grant\/service\/([^/]+)\/consume$/))) {
+            const serviceGrant = this._serviceGrants.get(match[1]);
+            const service = serviceGrant && this._getService(serviceGrant.serviceId);
+            if (!serviceGrant || !service) {
+                this._sendJson(response, 404, null);
+                return;
+            }
+            if (request.headers['x-service-api-key'] !== service.apiKey) {
+                this._sendJson(response, 403, { error: 'Invalid service api key' });
+                return;
+            }
+            let usageGrants: Record<string, Record<string, unknown>>;
+            try {
+                usageGrants = JSON.parse(await readBody(request));
+            } catch (e) {
+                this._sendJson(response, 400, { error: 'Invalid json' });
+                return;
+            }
+            // Like TEN31 Pass, usage grants are identified by their service usage id, see ServiceGrantInfo.usages.
+            for (const usageGrantId of Object.keys(usageGrants)) {
+                if (!Object.prototype.hasOwnProperty.call(serviceGrant.usages, usageGrantId)) {
+                    this._sendJson(response, 400, { error: `Unknown usage grant ${usageGrantId}` });
+                    return;
+                }
+                if (Object.prototype.hasOwnProperty.call(serviceGrant.consumption, usageGrantId)) {
+                    this._sendJson(response, 409, { error: `Usage grant ${usageGrantId} already consumed` });
+                    return;
+                }
+            }
+            for (const [usageGrantId, metadata] of Object.entries(usageGrants)) {
+                serviceGrant.consumption[usageGrantId] = { ...metadata, timestamp: new Date().toISOString() };
+            }
+            this._sendJson(response, 200, { ...serviceGrant, user: this._fixtures.user });
+        } else {
+            this._sendJson(response, 404, null);
+        }
+    }
+
+    private _getApp(appId: string): AppInfo | null {
+        const app = Object.prototype.hasOwnProperty.call(this._fixtures.apps, appId)
+            ? this._fixtures.apps[appId]
+            : null;
+        if (!app || app.active === false) return null;
+        const { active, ...appInfo } = app;
+        return appInfo;
+    }
+
+    private _getService(serviceId: string): MockServerFixtures['services'][string] | null {
+        const service = Object.prototype.hasOwnProperty.call(this._fixtures.services, serviceId)
+            ? this._fixtures.services[serviceId]
+            : null;
+        return service && service.active !== false ? service : null;
+    }
+
+    private _toServiceInfo({ apiKey, active, ...serviceInfo }: MockServerFixtures['services'][string]): ServiceInfo {
+        return serviceInfo;
+    }
+
+    private async _parseRequestData(request: IncomingMessage, url: URL): Promise<Record<string, string>> {
+        const data = request.method === 'POST' ? new URLSearchParams(await readBody(request)) : url.searchParams;
+        return Object.fromEntries(data);
+    }
+
+    /**
+     * Create the grants for a grant request according to the configured outcome. Returns the response data, which is
+     * empty for unsuccessful outcomes.
+     */
+    private async _createGrants({ app: appId, services: servicesJson }: Record<string, string>)
+        : Promise<Record<string, unknown>> {
+        const { status = ResponseStatus.Success } = this._outcome;
+        let requestedServices: Record<string, Record<string, UsageParameters>>;
+        try {
+            requestedServices = JSON.parse(servicesJson || '{}');
+        } catch (e) {
+            return { status: ResponseStatus.InvalidRequest };
+        }
+        const isValidRequest = !!this._getApp(appId) && Object.entries(requestedServices).every(([serviceId, usages]) =>
+            Object.keys(usages).every((usageId) => !!this._getService(serviceId)?.usages[usageId]));
+        if (!isValidRequest) return { status: ResponseStatus.InvalidRequest };
+        if (status !== ResponseStatus.Success) return { status };
+
+        const timestamp = new Date().toISOString();
+        const appGrantId = webcrypto.randomUUID();
+        this._appGrants.set(appGrantId, { id: appGrantId, timestamp, appId });
+
+        const serviceGrantIds: Record<string, string> = {};
+        for (const [serviceId, usages] of Object.entries(requestedServices)) {
+            const serviceGrantId = webcrypto.randomUUID();
+            serviceGrantIds[serviceId] = serviceGrantId;
+            this._serviceGrants.set(serviceGrantId, {
+                id: serviceGrantId,
+                timestamp,
+                serviceId,
+                appId,
+                token: await this._createToken(serviceGrantId, serviceId, appId, usages),
+                usages,
+                consumption: {},
+            });
+        }
+        return { status, app: appGrantId, services: serviceGrantIds };
+    }
+
+    private async _createToken(
+        serviceGrantId: string,
+        serviceId: string,
+        appId: string,
+        usages: Record<string, UsageParameters>,
+    ): Promise<string> {
+        const now = Math.floor(Date.now() / 1000);
+        const encode = (data: object | Uint8Array) => Buffer.from(data instanceof Uint8Array
+            ? data
+            : JSON.stringify(data)).toString('base64url');
+        const signedData = `${encode({ alg: 'ES256', kid: 'mock', typ: 'JWT' })}.${encode({
+            jti: serviceGrantId,
+            service: serviceId,
+            app: appId,
+            usages,
+            user: this._fixtures.user.id,
+            iat: now,
+            exp: now + 24 * 60 * 60,
+        })}`;
+        const { privateKey } = await this._getSigningKey();
+        const signature = await webcrypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey,
+            Buffer.from(signedData));
+        return `${signedData}.${encode(new Uint8Array(signature))}`;
+    }
+
+    private _getSigningKey(): Promise<CryptoKeyPair> {
+        this._signingKey = this._signingKey || webcrypto.subtle.generateKey(
+            { name: 'ECDSA', namedCurve: 'P-256' },
+            true,
+            ['sign', 'verify'],
+        ) as Promise<CryptoKeyPair>;
+        return this._signingKey;
+    }
+
+    /**
+     * Send a page that responds to the opener via postMessage or by redirecting back, according to the configured
+     * outcome and the requested preferred response type.
+     */
+    private _sendPage(
+        response: ServerResponse,
+        event: string,
+        { app: appId, preferred_response_type: preferredResponseType, nonce }: Record<string, string>,
+        { status = this._outcome.status || ResponseStatus.Success, ...responseData }: Record<string, unknown>,
+        fallbackRedirect?: string,
+    ): void {
+        const responseType = this._outcome.responseType || preferredResponseType || ResponseType.REDIRECT;
+        const app = appId ? this._getApp(appId) : null;
+        const redirect = app?.redirect || fallbackRedirect;
+
+        // Redirect responses encode the response data as flat search or fragment parameters.
+        let redirectUrl: string | null = null;
+        if (redirect) {
+            const redirectParams = new URLSearchParams({ event, status: status as string });
+            if (nonce) redirectParams.set('nonce', nonce);
+            if (typeof responseData.app === 'string') redirectParams.set(`grant-for-app-${appId}`, responseData.app);
+            const serviceGrantIds = (responseData.services || {}) as Record<string, string>;
+            for (const [serviceId, serviceGrantId] of Object.entries(serviceGrantIds)) {
+                redirectParams.set(`grant-for-service-${serviceId}`, serviceGrantId);
+            }
+            const url = new URL(redirect);
+            if (app?.fragment) {
+                url.hash = redirectParams.toString();
+            } else {
+                redirectParams.forEach((value, key) => url.searchParams.set(key, value));
+            }
+            redirectUrl = url.href;
+        }
+
+        const script = `
+            const message = ${toScriptJson({ event, status, ...(nonce ? { nonce } : null), ...responseData })};
+            const redirectUrl = ${toScriptJson(redirectUrl)};
+            const responseType = ${toScriptJson(responseType)};
+            if (responseType === '${ResponseType.POST_MESSAGE}' && window.opener) {
+                window.opener.postMessage(message, '*');
+            } else if (redirectUrl && responseType === '${ResponseType.IMMEDIATE_REDIRECT}') {
+                location.replace(redirectUrl);
+            } else if (redirectUrl) {
+                setTimeout(() => location.assign(redirectUrl), ${this._outcome.redirectDelay ?? 1000});
+            }`;
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        response.end(`<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>TEN31 Pass Mock</title></head>
+<body>
+<h1>TEN31 Pass Mock</h1>
+<p>${escapeHtml(event)}: ${escapeHtml(String(status))}</p>
+${redirectUrl ? `<a href="${escapeHtml(redirectUrl)}">Continue</a>` : ''}
+<script>${script}</script>
+</body>
+</html>`);
+    }
+
+    private _sendJson(response: ServerResponse, statusCode: number, data: unknown): void {
+        response.writeHead(statusCode, {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Headers': 'Content-Type, X-Service-Api-Key',
+        });
+        response.end(data !== null ? JSON.stringify(data) : undefined);
+    }
+}
+
+/** Create and start a mock server. */
+export function startMockServer(options?: MockServerOptions): Promise<MockServer> {
+    return new MockServer(options).listen();
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        request.setEncoding('utf8');
+        request.on('data', (chunk) => body += chunk);
+        request.on('end', () => resolve(body));
+        request.on('error', reject);
+    });
+}
+
+function toScriptJson(data: unknown): string {
+    // Escape < to prevent closing the script tag from within the data
+    return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,227 @@
+// Overlay shown while a TEN31 Pass popup is open, similar to Nimiq Hub's PopupRequestBehavior overlay.
+
+/**
+ * Theme of the popup overlay. Each value can alternatively be set via the CSS custom property noted, e.g. in a
+ * stylesheet on :root, where values passed here take precedence.
+ */
+export interface OverlayTheme {
+    /** --ten31-pass-overlay-background */
+    background?: string,
+    /** --ten31-pass-overlay-color, the text and close button color */
+    color?: string,
+    /** --ten31-pass-overlay-font-family */
+    fontFamily?: string,
+    /** --ten31-pass-overlay-font-size */
+    fontSize?: string,
+    /** --ten31-pass-overlay-font-weight */
+    fontWeight?: string,
+    /** --ten31-pass-overlay-focus-color, the outline color of focused buttons */
+    focusColor?: string,
+    /** --ten31-pass-overlay-z-index */
+    zIndex?: string | number,
+    /** Logo url. Set to an empty string to hide the logo. */
+    logo?: string,
+}
+
+export interface PopupOverlayOptions {
+    text?: string,
+    /** Logo url, alternatively to theme.logo */
+    logo?: string,
+    /** Accessible label of the close button */
+    closeButtonLabel?: string,
+    theme?: OverlayTheme,
+}
+
+const THEME_PROPERTIES: Array<[Exclude<keyof OverlayTheme, 'logo'>, string]> = [
+    ['background', '--ten31-pass-overlay-background'],
+    ['color', '--ten31-pass-overlay-color'],
+    ['fontFamily', '--ten31-pass-overlay-font-family'],
+    ['fontSize', '--ten31-pass-overlay-font-size'],
+    ['fontWeight', '--ten31-pass-overlay-font-weight'],
+    ['focusColor', '--ten31-pass-overlay-focus-color'],
+    ['zIndex', '--ten31-pass-overlay-z-index'],
+];
+
+const DEFAULT_FONT_FAMILY = 'Muli, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen-Sans, Ubuntu, '
+    + 'Cantarell, "Helvetica Neue", sans-serif';
+const DEFAULT_LOGO = 'data:image/svg+xml,<svg width="150" height="30" viewBox="0 0 75 15" xmlns="http://www.w3.org/2000/svg"><path d="M1 .5H12v2.8H8v11.2H5.1V3.3H1V.5Zm21.5 0H14v14h8.4v-2.8h-5.6V8.9H21V6.1h-4.2V3.3h5.6V.5Zm46.1 0v2.8L66.8.5h-.9v4.2h.9V1.9l1.8 2.8h.8V.5h-.8Zm-5.1 0L65 4.7h-.9l-.3-.8H62l-.3.8H61L62.5.5h1Zm0 2.6L63 1.6l-.6 1.5h1.2Zm-3.3.5a1.1 1.1 0 0 1-1.1 1.1h-2V.5h1.7a1.1 1.1 0 0 1 .7 2 1.1 1.1 0 0 1 .7 1ZM58 2.2h.5a.6.6 0 0 0 .4-1 .6.6 0 0 0-.4 0H58v1Zm1.4 1.3a.6.6 0 0 0-.6-.6H58V4h.8a.6.6 0 0 0 .6-.6ZM74 .5H73L71.5 2V.5h-.8v4.2h.8V3.2l.4-.4L73 4.7h1l-1.6-2.5L74 .5ZM46 5.3 48.8.5h-9.6v2.8H44l-2.6 4.2h2.1c1.3 0 2.3 1 2.3 2.1 0 1.2-1 2.1-2.3 2.1-1 0-2.4-.6-3.5-1.8l-1.5 2.5a7.3 7.3 0 0 0 5 2.1 5 5 0 0 0 5-4.9A4.9 4.9 0 0 0 46 5.3ZM51.1.5l-1.7 2.8h2V12l2.8-4.7V.5h-3.1ZM32.4.5v8.6L27.2.5h-2.8v14h2.8V5.9l5.2 8.6h2.8V.5h-2.8Z" fill="white"/></svg>';
+
+/**
+ * Modal dialog covering the page while a popup is open. Clicking anywhere or activating the text button brings the
+ * popup back to the front, the close button or Escape close it. Keyboard focus is trapped within the dialog while it
+ * is shown and restored afterwards. Styles can be overwritten with css targeting #ten31-pass-overlay or via the
+ * theme's CSS custom properties.
+ */
+export class PopupOverlay {
+    readonly element: HTMLDivElement;
+    private readonly _previouslyFocusedElement: Element | null;
+    private readonly _reducedMotion: boolean;
+    private readonly _onKeyDown: (event: KeyboardEvent) => void;
+    private readonly _onFocusIn: (event: FocusEvent) => void;
+
+    constructor(
+        onFocusRequested: () => void,
+        onCloseRequested: () => void,
+        options: PopupOverlayOptions & { onCallbackError?: (e: Error) => void } = {},
+    ) {
+        // Define DOM-method abstractions to allow better minification
+        const createElement = document.createElement.bind(document);
+        const appendChild = (node: Node, child: Node) => node.appendChild(child);
+        const withErrorHandler = (callback: () => void) => () => {
+            try {
+                callback();
+            } catch (e: any) {
+                if (!options.onCallbackError) throw e;
+                options.onCallbackError(e);
+            }
+        };
+        const { theme = {} } = options;
+        this._reducedMotion = !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+        // Overlay background
+        const overlay = this.element = createElement('div');
+        overlay.id = 'ten31-pass-overlay';
+        overlay.setAttribute('role', 'dialog');
+        overlay.setAttribute('aria-modal', 'true');
+        overlay.setAttribute('aria-labelledby', 'ten31-pass-overlay-text');
+        const overlayStyle = overlay.style;
+        for (const [themeKey, customProperty] of THEME_PROPERTIES) {
+            if (theme[themeKey] === undefined) continue;
+            overlayStyle.setProperty(customProperty, String(theme[themeKey]));
+        }
+        overlayStyle.position = 'fixed';
+        overlayStyle.top = '0';
+        overlayStyle.right = '0';
+        overlayStyle.bottom = '0';
+        overlayStyle.left = '0';
+        overlayStyle.background = 'var(--ten31-pass-overlay-background, rgba(31, 35, 72, 0.8))';
+        overlayStyle.display = 'flex';
+        overlayStyle.flexDirection = 'column';
+        overlayStyle.alignItems = 'center';
+        overlayStyle.justifyContent = 'space-between';
+        overlayStyle.cursor = 'pointer';
+        overlayStyle.color = 'var(--ten31-pass-overlay-color, white)';
+        overlayStyle.fontFamily = `var(--ten31-pass-overlay-font-family, ${DEFAULT_FONT_FAMILY})`;
+        overlayStyle.textAlign = 'center';
+        overlayStyle.opacity = this._reducedMotion ? '1' : '0';
+        overlayStyle.transition = this._reducedMotion ? 'none' : 'opacity .6s ease';
+        overlayStyle.zIndex = 'var(--ten31-pass-overlay-z-index, 99999)';
+        overlay.addEventListener('click', withErrorHandler(onFocusRequested));
+
+        // Top flex spacer
+        appendChild(overlay, createElement('div'));
+
+        // Explainer text, which is a button, such that bringing the popup to the front is also keyboard accessible
+        const text = this._createButton();
+        text.id = 'ten31-pass-overlay-text';
+        text.className = 'text';
+        text.textContent = options.text || 'A popup has been opened,\nclick anywhere to bring it back to the front.';
+        const textStyle = text.style;
+        textStyle.padding = '20px';
+        textStyle.fontSize = 'var(--ten31-pass-overlay-font-size, 24px)';
+        textStyle.fontWeight = 'var(--ten31-pass-overlay-font-weight, 600)';
+        textStyle.lineHeight = '1.67';
+        textStyle.whiteSpace = 'pre-line';
+        // Activating the button is handled by the click listener on the overlay.
+        appendChild(overlay, text);
+
+        // Logo
+        const logoUrl = theme.logo ?? options.logo ?? DEFAULT_LOGO;
+        if (logoUrl) {
+            const logo = createElement('img');
+            logo.className = 'logo';
+            logo.src = logoUrl;
+            logo.alt = ''; // decorative
+            logo.style.marginBottom = '56px';
+            appendChild(overlay, logo);
+        } else {
+            // Bottom flex spacer
+            appendChild(overlay, createElement('div'));
+        }
+
+        // Close button
+        const button = this._createButton();
+        button.className = 'close';
+        button.setAttribute('aria-label', options.closeButtonLabel || 'Close popup');
+        button.textContent = '×';
+        const buttonStyle = button.style;
+        buttonStyle.position = 'absolute';
+        buttonStyle.top = '8px';
+        buttonStyle.right = '8px';
+        buttonStyle.fontSize = '24px';
+        buttonStyle.lineHeight = '32px';
+        buttonStyle.fontWeight = '600';
+        buttonStyle.width = '32px';
+        buttonStyle.height = '32px';
+        buttonStyle.opacity = '0.8';
+        const onClose = withErrorHandler(onCloseRequested);
+        button.addEventListener('click', (event) => {
+            event.stopPropagation();
+            onClose();
+        });
+        appendChild(overlay, button);
+
+        const focusableElements = [text, button];
+        this._onKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                event.preventDefault();
+                onClose();
+            } else if (event.key === 'Tab') {
+                // Trap focus by cycling through the dialog's buttons
+                event.preventDefault();
+                const index = focusableElements.indexOf(document.activeElement as HTMLButtonElement);
+                const nextIndex = (index + (event.shiftKey ? -1 : 1) + focusableElements.length)
+                    % focusableElements.length;
+                focusableElements[nextIndex].focus();
+            }
+        };
+        this._onFocusIn = (event: FocusEvent) => {
+            // Move focus back into the dialog, e.g. if it was moved out via a mouse click or screen reader navigation
+            if (overlay.contains(event.target as Node)) return;
+            text.focus({ preventScroll: true });
+        };
+
+        appendChild(document.body, overlay);
+        this._previouslyFocusedElement = document.activeElement;
+        document.addEventListener('keydown', this._onKeyDown);
+        document.addEventListener('focusin', this._onFocusIn);
+        text.focus({ preventScroll: true });
+
+        if (this._reducedMotion) return;
+        // The 100ms delay is not just because the DOM element needs to be rendered before it
+        // can be animated, but also because it actually feels better when there is a short
+        // delay between the opening popup and the background fading.
+        setTimeout(() => overlayStyle.opacity = '1', 100);
+    }
+
+    /** Remove the overlay, and restore the focus to the element which was focused before the overlay was shown. */
+    remove(): void {
+        document.removeEventListener('keydown', this._onKeyDown);
+        document.removeEventListener('focusin', this._onFocusIn);
+        if (this._previouslyFocusedElement instanceof HTMLElement && this._previouslyFocusedElement.isConnected) {
+            this._previouslyFocusedElement.focus({ preventScroll: true });
+        }
+
+        if (this._reducedMotion) {
+            this.element.remove();
+            return;
+        }
+        this.element.style.opacity = '0';
+        setTimeout(() => this.element.remove(), 400);
+    }
+
+    private _createButton(): HTMLButtonElement {
+        // Unstyled button, inheriting the overlay's styles
+        const button = document.createElement('button');
+        button.type = 'button';
+        const buttonStyle = button.style;
+        buttonStyle.background = 'none';
+        buttonStyle.border = 'none';
+        buttonStyle.padding = '0';
+        buttonStyle.color = 'inherit';
+        buttonStyle.font = 'inherit';
+        buttonStyle.cursor = 'pointer';
+        buttonStyle.outlineColor = 'var(--ten31-pass-overlay-focus-color, currentColor)';
+        return button;
+    }
+}
@@ -0,0 +1,226 @@
+import { InvalidRequestError } from './errors';
+
+/** Minimal storage interface, which window.sessionStorage and window.localStorage implement. */
+export interface StorageAdapter {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/** Converts stored values to and from strings. JSON can be used as serializer for plain JSON values. */
+export interface Serializer {
+    stringify(value: unknown): string;
+    parse(text: string): any;
+}
+
+export interface PendingRequestStoreOptions {
+    /**
+     * Where to store pending requests, including their redirect recoverable state. Defaults to 'session'. Note that
+     * redirect responses can only be matched to their request if the storage survives the redirect, which is not the
+     * case for 'memory'. If the chosen web storage is not available, e.g. in sandboxed iframes, in-memory storage is
+     * used instead.
+     */
+    storage?: 'session' | 'local' | 'memory' | StorageAdapter,
+    /** Time in ms after which pending requests expire. Defaults to one hour. */
+    ttl?: number,
+    /** Maximum number of stored pending requests. The oldest requests are dropped first. Defaults to 20. */
+    maxEntries?: number,
+    /** Maximum serialized size of a pending request in characters. Defaults to 100000. */
+    maxEntrySize?: number,
+    /** Serializer for pending requests. Defaults to typedJsonSerializer. */
+    serializer?: Serializer,
+}
+
+interface StoredEntry<T> {
+    expiry: number,
+    // Unset for requests which have been consumed already, see take.
+    value?: T,
+}
+
+/** In-memory StorageAdapter, which does not survive page loads. */
+export class MemoryStorage implements StorageAdapter {
+    private readonly _items = new Map<string, string>();
+
+    getItem(key: string): string | null {
+        return this._items.get(key) ?? null;
+    }
+
+    setItem(key: string, value: string): void {
+        this._items.set(key, value);
+    }
+
+    removeItem(key: string): void {
+        this._items.delete(key);
+    }
+}
+
+const TYPE_TAG = '__ten31PassType';
+
+/**
+ * JSON based serializer which additionally preserves Dates, Maps, Sets, BigInts and undefined values, which plain JSON
+ * drops or converts. These are encoded as objects with a __ten31PassType property.
+ */
+export const typedJsonSerializer: Serializer = {
+    stringify(value: unknown): string {
+        return JSON.stringify(value, function (this: any, key: string, jsonValue: unknown) {
+            // Use the raw value, as for Dates, toJSON has already been applied to jsonValue.
+            const rawValue = this[key];
+            if (rawValue instanceof Date) return { [TYPE_TAG]: 'Date', value: rawValue.toISOString() };
+            if (rawValue instanceof Map) return { [TYPE_TAG]: 'Map', value: [...rawValue] };
+            if (rawValue instanceof Set) return { [TYPE_TAG]: 'Set', value: [...rawValue] };
+            if (typeof rawValue === 'bigint') return { [TYPE_TAG]: 'BigInt', value: rawValue.toString() };
+            if (rawValue === undefined && key) return { [TYPE_TAG]: 'undefined' };
+            return jsonValue;
+        });
+    },
+    parse(text: string): any {
+        return reviveTypedJsonValue(JSON.parse(text));
+    },
+};
+
+/**
+ * Storage for requests which are pending while redirecting to TEN31 Pass or while a popup is open, keyed by request
+ * id. Entries expire after the configured ttl and are cleaned up on each access.
+ */
+export class PendingRequestStore<T = unknown> {
+    private static readonly STORAGE_KEY = 'ten31-pass-redirect-behavior';
+    private static _default?: PendingRequestStore<any>;
+
+    /** Store with default options, which is for example used for relaying redirect responses in popups. */
+    static get default(): PendingRequestStore<any> {
+        return PendingRequestStore._default ||= new PendingRequestStore();
+    }
+
+    private readonly _storage: StorageAdapter;
+    private readonly _ttl: number;
+    private readonly _maxEntries: number;
+    private readonly _maxEntrySize: number;
+    private readonly _serializer: Serializer;
+
+    constructor({
+        storage = 'session',
+        ttl = 60 * 60 * 1000,
+        maxEntries = 20,
+        maxEntrySize = 100000,
+        serializer = typedJsonSerializer,
+    }: PendingRequestStoreOptions = {}) {
+        this._storage = typeof storage === 'object' ? storage : getWebStorage(storage);
+        this._ttl = ttl;
+        this._maxEntries = maxEntries;
+        this._maxEntrySize = maxEntrySize;
+        this._serializer = serializer;
+    }
+
+    /** Get a pending request. Returns null for unknown, expired or consumed requests. */
+    get(requestId: string): T | null {
+        return this._readEntries()[requestId]?.value ?? null;
+    }
+
+    /**
+     * Store a pending request. Throws an InvalidRequestError if the serialized request exceeds the configured maximum
+     * size, e.g. because of a large redirect recoverable state.
+     */
+    set(requestId: string, value: T): void {
+        const entrySize = this._serializer.stringify(value).length;
+        if (entrySize > this._maxEntrySize) {
+            throw new InvalidRequestError(`TEN31 Pass pending request of size ${entrySize} exceeds the maximum size `
+                + `of ${this._maxEntrySize}, e.g. because of a too large redirect recoverable state.`);
+        }
+        const entries = this._readEntries();
+        delete entries[requestId]; // re-insert as newest entry
+        entries[requestId] = { expiry: Date.now() + this._ttl, value };
+        // Drop the oldest entries, relying on the insertion order of string keys.
+        const requestIds = Object.keys(entries);
+        for (const droppedRequestId of requestIds.slice(0, Math.max(0, requestIds.length - this._maxEntries))) {
+            delete entries[droppedRequestId];
+        }
+        this._writeEntries(entries);
+    }
+
+    /**
+     * Get a pending request and remove its stored value. Until the request's expiry, the request id is remembered as
+     * consumed, see isConsumed.
+     */
+    take(requestId: string): T | null {
+        const entries = this._readEntries();
+        const entry = entries[requestId];
+        if (!entry || !('value' in entry)) return null;
+        entries[requestId] = { expiry: entry.expiry };
+        this._writeEntries(entries);
+        return entry.value!;
+    }
+
+    /** Whether a request has been consumed via take, e.g. on an earlier page load. */
+    isConsumed(requestId: string): boolean {
+        const entry = this._readEntries()[requestId];
+        return !!entry && !('value' in entry);
+    }
+
+    delete(requestId: string): void {
+        const entries = this._readEntries();
+        if (!(requestId in entries)) return;
+        delete entries[requestId];
+        this._writeEntries(entries);
+    }
+
+    /** Read all entries, removing expired and unreadable ones. */
+    private _readEntries(): Record<string, StoredEntry<T>> {
+        let entries: Record<string, StoredEntry<T>>;
+        try {
+            entries = this._serializer.parse(this._storage.getItem(PendingRequestStore.STORAGE_KEY) || '{}');
+        } catch (e) {
+            // Unreadable, for example written in a different format. Start over.
+            entries = {};
+        }
+        if (!entries || typeof entries !== 'object') return {};
+        const now = Date.now();
+        let hasExpiredEntries = false;
+        for (const [requestId, entry] of Object.entries(entries)) {
+            if (entry && typeof entry.expiry === 'number' && entry.expiry > now) continue;
+            delete entries[requestId];
+            hasExpiredEntries = true;
+        }
+        if (hasExpiredEntries) {
+            this._writeEntries(entries);
+        }
+        return entries;
+    }
+
+    private _writeEntries(entries: Record<string, StoredEntry<T>>): void {
+        if (!Object.keys(entries).length) {
+            this._storage.removeItem(PendingRequestStore.STORAGE_KEY);
+            return;
+        }
+        this._storage.setItem(PendingRequestStore.STORAGE_KEY, this._serializer.stringify(entries));
+    }
+}
+
+function reviveTypedJsonValue(value: any): any {
+    if (!value || typeof value !== 'object') return value;
+    switch (value[TYPE_TAG]) {
+        case 'Date': return new Date(value.value);
+        case 'Map': return new Map(reviveTypedJsonValue(value.value));
+        case 'Set': return new Set(reviveTypedJsonValue(value.value));
+        case 'BigInt': return BigInt(value.value);
+        case 'undefined': return undefined;
+    }
+    if (Array.isArray(value)) return value.map(reviveTypedJsonValue);
+    for (const key of Object.keys(value)) {
+        value[key] = reviveTypedJsonValue(value[key]);
+    }
+    return value;
+}
+
+function getWebStorage(type: 'session' | 'local' | 'memory'): StorageAdapter {
+    if (type === 'memory') return new MemoryStorage();
+    try {
+        // Accessing the storage throws in sandboxed iframes or if storage is disabled.
+        const storage = type === 'session' ? window.sessionStorage : window.localStorage;
+        const testKey = 'ten31-pass-storage-test';
+        storage.setItem(testKey, testKey);
+        storage.removeItem(testKey);
+        return storage;
+    } catch (e) {
+        return new MemoryStorage();
+    }
+}
@@ -0,0 +1,101 @@
+// React bindings. Written without JSX, such that no JSX transform is needed for building this library.
+
+import { createContext, createElement, useContext, useEffect, useState, type ReactNode } from 'react';
+import type Ten31PassApi from './index';
+import type { GrantResponse, ServiceInfo, ServiceRequest } from './types';
+import {
+    GrantRequestController,
+    type GrantRequestOptions,
+    type GrantRequestState,
+} from './grant-request-controller';
+import { getSharedServiceInfo } from './service-info-cache';
+
+export type { GrantRequestStatus, GrantRequestState, GrantRequestOptions } from './grant-request-controller';
+export { GrantRequestController } from './grant-request-controller';
+
+const Ten31PassContext = createContext<Ten31PassApi | null>(null);
+
+/** Provides a Ten31PassApi instance to useTen31PassApi, useGrantRequest and useServiceInfo. */
+export function Ten31PassProvider({ api, children }: { api: Ten31PassApi, children?: ReactNode }) {
+    return createElement(Ten31PassContext.Provider, { value: api }, children);
+}
+
+/** Get the Ten31PassApi instance of the closest Ten31PassProvider. */
+export function useTen31PassApi(): Ten31PassApi {
+    const api = useContext(Ten31PassContext);
+    if (!api) throw new Error('useTen31PassApi must be used within a Ten31PassProvider.');
+    return api;
+}
+
+export interface UseGrantRequestResult extends GrantRequestState {
+    /** Request grants via a popup. Never rejects, failures are reported via status and error instead. */
+    requestGrants: (
+        appId: string,
+        services?: ServiceRequest[],
+        options?: GrantRequestOptions,
+    ) => Promise<GrantResponse | null>,
+    /** Cancel the pending request, which closes its popup. */
+    cancel: () => void,
+    reset: () => void,
+}
+
+/**
+ * Reactive grant request state with a trigger function. On mount, a grant response received via redirect is
+ * recovered. On unmount, a pending request is cancelled, which closes its popup.
+ */
+export function useGrantRequest(api?: Ten31PassApi): UseGrantRequestResult {
+    const contextApi = useContext(Ten31PassContext);
+    const resolvedApi = api || contextApi;
+    if (!resolvedApi) throw new Error('useGrantRequest requires an api instance or a Ten31PassProvider.');
+
+    const [controller] = useState(() => new GrantRequestController(resolvedApi));
+    const [state, setState] = useState(controller.state);
+    useEffect(() => {
+        const unsubscribe = controller.subscribe(setState);
+        controller.recoverRedirectResponse();
+        return () => {
+            unsubscribe();
+            controller.cancel();
+        };
+    }, [controller]);
+
+    return {
+        ...state,
+        requestGrants: controller.requestGrants.bind(controller),
+        cancel: controller.cancel.bind(controller),
+        reset: controller.reset.bind(controller),
+    };
+}
+
+/**
+ * Fetch a service's info, which is shared between components using the same api instance and cached for a minute.
+ * Info is null while loading and for unknown services, in which case error is set for failed requests.
+ */
+export function useServiceInfo(
+    serviceId: string | null | undefined,
+    api?: Ten31PassApi,
+): { info: ServiceInfo | null, loading: boolean, error: unknown | null } {
+    const contextApi = useContext(Ten31PassContext);
+    const resolvedApi = api || contextApi;
+    if (!resolvedApi) throw new Error('useServiceInfo requires an api instance or a Ten31PassProvider.');
+
+    const [result, setResult] = useState<{ info: ServiceInfo | null, loading: boolean, error: unknown | null }>(
+        { info: null, loading: !!serviceId, error: null },
+    );
+    useEffect(() => {
+        if (!serviceId) {
+            setResult({ info: null, loading: false, error: null });
+            return;
+        }
+        let isCurrent = true;
+        setResult({ info: null, loading: true, error: null });
+        getSharedServiceInfo(resolvedApi, serviceId).then(
+            (info) => isCurrent && setResult({ info, loading: false, error: null }),
+            (error) => isCurrent && setResult({ info: null, loading: false, error }),
+        );
+        return () => {
+            isCurrent = false;
+        };
+    }, [resolvedApi, serviceId]);
+    return result;
+}
@@ -2,31 +2,44 @@
 // behaviors are based on @nimiq/rpc which TEN31 Pass does not use.
 
 import { generateWindowName, postRequest, isIOS } from './utils';
-
-export enum ResponseType {
-    POST_MESSAGE = 'post-message',
-    REDIRECT = 'redirect',
-    IMMEDIATE_REDIRECT = 'immediate-redirect', // automatically and immediately redirect without showing success page
-}
-
-// Only for internal use. To the outside, we throw errors.
-export enum ResponseStatus {
-    Success = 'Success',
-    Error = 'Error',
-    InvalidRequest = 'InvalidRequest',
-    Unknown = 'Unknown',
-}
+import { PendingRequestStore } from './pending-request-store';
+import { PopupOverlay, type PopupOverlayOptions } from './overlay';
+import { ResponseStatus, ResponseType } from './types';
+import {
+    PopupBlockedError,
+    PopupClosedError,
+    RequestAbortedError,
+    RequestRejectedError,
+    UnexpectedResponseError,
+} from './errors';
 
 class RedirectBehavior {
-    static getRecoverableState(requestId: string): any {
-        return JSON.parse(window.sessionStorage[RedirectBehavior.STORAGE_KEY] || '{}')[requestId] || null;
-    }
-
-    static setRecoverableState(requestId: string, recoverableState: any): void {
-        window.sessionStorage[RedirectBehavior.STORAGE_KEY] = JSON.stringify({
-            ...JSON.parse(window.sessionStorage[RedirectBehavior.STORAGE_KEY] || '{}'),
-            [requestId]: recoverableState,
-        });
+    /**
+     * Register a pending request in the given store, if a request id is set, and return the request data extended by
+     * the request id as nonce, which TEN31 Pass returns as part of redirect responses. Pending requests can later be
+     * looked up by the nonce of a response. For unknown request ids, e.g. for responses to requests made on another
+     * page or crafted responses, no pending request is found.
+     */
+    static prepareRequestData(
+        pendingRequestStore: PendingRequestStore<RedirectBehavior.PendingRequest>,
+        data: Record<string, unknown> | undefined,
+        options?: RedirectBehavior.PendingRequestOptions & { preferredResponseType?: ResponseType },
+        relayResponseEvent?: string,
+    ): Record<string, unknown> | undefined {
+        if (options?.requestId) {
+            pendingRequestStore.set(options.requestId, {
+                timestamp: Date.now(),
+                responseType: options.preferredResponseType,
+                recoverableState: options.recoverableState,
+                ...(relayResponseEvent ? { relayResponseEvent } : null),
+            });
+        }
+        if (!data && !options?.preferredResponseType && !options?.requestId) return undefined;
+        return {
+            ...data,
+            ...(options?.preferredResponseType ? { preferred_response_type: options.preferredResponseType } : null),
+            ...(options?.requestId ? { nonce: options.requestId } : null),
+        };
     }
 
     static getRedirectResponse(
@@ -34,6 +47,8 @@ class RedirectBehavior {
         requiredKeys: Array<string | RegExp> = [], // status always required, others only for status === 'Success'
         optionalKeys: Array<string | RegExp> = [],
         origin?: string,
+        // Called with the error and the received values before throwing for unexpected or rejected responses
+        onError?: (error: Error, response: Record<string, string>) => void,
     ): Record<string, string> | null {
         if (origin && (!document.referrer || new URL(document.referrer).origin !== origin)) return null;
 
@@ -79,16 +94,18 @@ class RedirectBehavior {
             }
             cleanedQuery = cleanedQuery.replace(/&$/, ''); // remove potential leftover trailing &
 
+            let error: Error | undefined;
             if (!response.status || (response.status === ResponseStatus.Success && missingRequiredKeys.size)) {
-                throw new Error('TEN31 Pass did not return expected response.');
-            }
-            if (response.status !== ResponseStatus.Success) {
+                error = new UnexpectedResponseError();
+            } else if (response.status !== ResponseStatus.Success) {
                 // Different to popup requests, reject on any kind of error because the user can not retry anymore after
                 // the redirect. With the current TEN31 Pass implementation however, redirects are only executed for
                 // successful requests anyways.
-                throw new Error(`TEN31 Pass rejected request with error: ${response.status}`, {
-                    cause: new Error(response.status),
-                });
+                error = new RequestRejectedError(response.status as Exclude<ResponseStatus, ResponseStatus.Success>);
+            }
+            if (error) {
+                onError?.(error, response);
+                throw error;
             }
 
             // Cache response and set new url with removed redirect response
@@ -113,18 +130,16 @@ class RedirectBehavior {
 
     private static readonly STORAGE_KEY = 'ten31-pass-redirect-behavior';
 
-    constructor(private endpoint: string) {}
+    constructor(
+        private endpoint: string,
+        private pendingRequestStore: PendingRequestStore<RedirectBehavior.PendingRequest> = PendingRequestStore.default,
+    ) {}
 
     call(request: string, data?: Record<string, unknown>, options?: RedirectBehavior.RequestOptions): void {
-        if (options && 'recoverableState' in options) {
-            RedirectBehavior.setRecoverableState(options.requestId, options.recoverableState);
-        }
         const url = `${this.endpoint}${request}`;
-        if (data || options?.preferredResponseType) {
-            postRequest(url, {
-                ...data,
-                ...(options?.preferredResponseType ? { preferred_response_type: options.preferredResponseType } : null),
-            });
+        const requestData = RedirectBehavior.prepareRequestData(this.pendingRequestStore, data, options);
+        if (requestData) {
+            postRequest(url, requestData);
         } else {
             window.location.assign(url);
         }
@@ -138,15 +153,88 @@ namespace RedirectBehavior {
         // itself is already a popup, but this is currently not encouraged by the api and the postMessage response would
         // needed to be checked manually by the page that opened the popup.
         preferredResponseType?: Exclude<ResponseType, ResponseType.POST_MESSAGE>,
-    } & RecoverStateOptions;
+    } & PendingRequestOptions;
+
+    export type PendingRequestOptions = {
+        // Unique, unguessable id of the request, which is stored before the request and sent to TEN31 Pass as nonce
+        // to be returned in redirect responses, such that responses can be matched to their pending request.
+        requestId?: string,
+        // State to recover after a redirect response, see PendingRequestStore
+        recoverableState?: any,
+    };
 
-    export type RecoverStateOptions = {} | {
-        requestId: string,
-        recoverableState: any,
+    export type PendingRequest = {
+        // Time when the request was made
+        timestamp: number,
+        // The preferred response type of the request
+        responseType?: ResponseType,
+        recoverableState?: any,
+        // Set for popup requests expecting a postMessage response, for which redirect responses are relayed to the
+        // opener, see PopupBehavior.relayResponse.
+        relayResponseEvent?: string,
     };
 }
 
 class PopupBehavior {
+    /**
+     * Relay a response, which a popup received via redirect instead of postMessage, to the opener which is waiting for
+     * a postMessage response, and close the popup. This is the case if TEN31 Pass falls back to ResponseType.REDIRECT,
+     * e.g. because JavaScript or window.opener are not available on TEN31 Pass. As the redirect response is received
+     * on the app's origin, it is relayed via same-origin channels: window.opener, BroadcastChannel or storage events.
+     * Returns whether the response was relayed, which is not the case if the current page is not such a popup. Relayed
+     * requests are removed from the popup's pending request store, such that the popup itself does not handle the
+     * response, too.
+     */
+    static relayResponse(
+        requestId: string,
+        responseMessage: { event: string, status: ResponseStatus },
+        pendingRequestStore: PendingRequestStore<RedirectBehavior.PendingRequest>,
+    ): boolean {
+        // Only relay responses to popup requests expecting this response event. This relies on the pending request
+        // being available in the popup, which is the case for session storage, as it is copied to popups on creation,
+        // and for local storage.
+        const pendingRequest = pendingRequestStore.get(requestId);
+        if (pendingRequest?.relayResponseEvent !== responseMessage.event) return false;
+        pendingRequestStore.take(requestId);
+
+        const relayMessage: PopupBehavior.RelayMessage = {
+            event: PopupBehavior.RELAY_EVENT,
+            nonce: requestId,
+            responseMessage,
+        };
+        try {
+            window.opener?.postMessage(relayMessage, window.location.origin);
+        } catch (e) {
+            // opener is not accessible
+        }
+        if (typeof BroadcastChannel !== 'undefined') {
+            const channel = new BroadcastChannel(PopupBehavior.RELAY_EVENT);
+            channel.postMessage(relayMessage);
+            channel.close();
+        }
+        try {
+            // Storage events are only fired in other windows, and only on changes. Remove entry right away.
+            window.localStorage.setItem(PopupBehavior.RELAY_EVENT, JSON.stringify(relayMessage));
+            window.localStorage.removeItem(PopupBehavior.RELAY_EVENT);
+        } catch (e) {
+            // storage not available, e.g. in sandboxed iframes
+        }
+
+        // Close with a short delay, to let the relayed message be processed before the opener notices the closed popup.
+        window.setTimeout(() => window.close(), 100);
+        return true;
+    }
+
+    private static readonly RELAY_EVENT = 'ten31-pass-relay';
+    // Time in ms for which it is checked whether the popup gets closed after the request settled
+    private static readonly CLOSE_CHECK_GRACE_PERIOD = 5000;
+
+    private static createAbortError(signal: AbortSignal): RequestAbortedError {
+        return signal.reason instanceof RequestAbortedError
+            ? signal.reason
+            : new RequestAbortedError(undefined, { cause: signal.reason });
+    }
+
     private static createPopup(url: string): WindowProxy {
         const popupName = generateWindowName(url);
         const popup = window.open(
@@ -154,13 +242,16 @@ class PopupBehavior {
             popupName,
             `left=${window.innerWidth / 2 - 400},top=75,width=800,height=850,location=yes`,
         );
-        if (!popup) throw new Error('TEN31 Pass popup failed to open.');
+        if (!popup) throw new PopupBlockedError();
         return popup;
     }
 
     private readonly _endpointOrigin: string;
 
-    constructor(private endpoint: string) {
+    constructor(
+        private endpoint: string,
+        private pendingRequestStore: PendingRequestStore<RedirectBehavior.PendingRequest> = PendingRequestStore.default,
+    ) {
         this._endpointOrigin = new URL(this.endpoint).origin;
     }
 
@@ -179,30 +270,32 @@ class PopupBehavior {
         data: Record<string, unknown> | undefined,
         options?: PopupBehavior.RequestOptions<T>,
     ): Promise<T> | void {
-        if (options && 'recoverableState' in options) {
-            // Cache recoverable state if requested, regardless of popup and preferred response type because also popups
-            // can respond via redirect if requested or as a fallback if no Javascript is available on TEN31 Pass.
-            RedirectBehavior.setRecoverableState(options.requestId, options.recoverableState);
-        }
-
+        const signal = options?.signal;
+        if (signal?.aborted) throw PopupBehavior.createAbortError(signal);
         const requestUrl = `${this.endpoint}${request}`;
-        const requestData = data || options?.preferredResponseType ? {
-            ...data,
-            ...(options?.preferredResponseType ? { preferred_response_type: options.preferredResponseType } : null),
-        } : undefined;
+        // Register the pending request regardless of popup and preferred response type because also popups can respond
+        // via redirect if requested or as a fallback if no Javascript is available on TEN31 Pass.
+        const requestData = RedirectBehavior.prepareRequestData(
+            this.pendingRequestStore,
+            data,
+            options,
+            options?.preferredResponseType === ResponseType.POST_MESSAGE ? options.responseEvent : undefined,
+        );
 
         // Throws if popup fails to open. Note that the overlay is only appended later, if the popup could be opened.
         let popup: WindowProxy = PopupBehavior.createPopup(requestUrl);
         if (requestData) {
             postRequest(requestUrl, requestData, popup);
         }
+        const onEvent = options?.onEvent || (() => {});
+        onEvent('popup-opened');
 
-        let overlay: HTMLDivElement | undefined;
-        const overlayOptions: Parameters<this['appendPopupOverlay']>[2] = typeof options?.overlay === 'object'
-            ? options.overlay
+        let overlay: PopupOverlay | undefined;
+        const overlayOptions: ConstructorParameters<typeof PopupOverlay>[2] = typeof options?.overlay === 'object'
+            ? { ...options.overlay }
             : {};
         if (options?.overlay) {
-            overlay = this.appendPopupOverlay(
+            overlay = new PopupOverlay(
                 /* onFocusRequested */ () => {
                     if (isIOS()) {
                         // iOS doesn't allow to focus the popup. We have to re-open it to bring it to the front.
@@ -217,36 +310,50 @@ class PopupBehavior {
                         if (requestData) {
                             postRequest(requestUrl, requestData, popup);
                         }
+                        onEvent('popup-refocused', { reopened: true });
                     } else {
                         popup.focus();
+                        onEvent('popup-refocused', { reopened: false });
                     }
                 },
                 /* onCloseRequested */ () => popup.close(),
                 overlayOptions,
             );
+            onEvent('overlay-shown');
         }
 
         if (options?.preferredResponseType !== ResponseType.POST_MESSAGE) {
             // not expecting a response
-            if (overlay) {
+            // Close the popup on abort, after which the overlay is removed via closeCheckInterval
+            const onAbort = () => popup.close();
+            signal?.addEventListener('abort', onAbort);
+            if (overlay || options?.onEvent || signal) {
                 // Remove overlay again once the popup has been closed
                 const closeCheckInterval = window.setInterval(() => {
                     if (!popup.closed) return;
                     window.clearInterval(closeCheckInterval);
-                    this.removeOverlay(overlay!);
+                    signal?.removeEventListener('abort', onAbort);
+                    onEvent('popup-closed');
+                    overlay?.remove();
                 }, 300);
             }
             return;
         }
 
-        let closeCheckInterval = -1;
         let onPopupMessage: (event: MessageEvent<unknown>) => void;
+        let onRelayMessage: (event: MessageEvent<unknown> | StorageEvent) => void;
+        let relayChannel: BroadcastChannel | undefined;
+        let onAbort: () => void;
+        let closeCheckInterval = -1;
         return new Promise<T>((resolve, reject) => {
-            onPopupMessage = (event: MessageEvent<unknown>) => {
-                if (event.origin !== this._endpointOrigin || !event.data || typeof event.data !== 'object'
-                    || (event.data as any).event !== options.responseEvent) return;
-                delete (event.data as any).event;
-                const responseMessage = event.data as PopupBehavior.ResponseMessage<T>;
+            const onResponseMessage = (message: unknown) => {
+                if (!message || typeof message !== 'object' || (message as any).event !== options.responseEvent) return;
+                // Ignore responses to other requests, if TEN31 Pass includes the nonce
+                const { nonce } = message as { nonce?: string };
+                if (nonce !== undefined && options.requestId && nonce !== options.requestId) return;
+                delete (message as any).event;
+                delete (message as any).nonce;
+                const responseMessage = message as PopupBehavior.ResponseMessage<T>;
                 if (options.responseFilter
                     ? !options.responseFilter(responseMessage)
                     // By default ignore unspecified errors (e.g. got logged out or wrong totp) as user can try again.
@@ -260,136 +367,78 @@ class PopupBehavior {
                             ? !(requiredKey in responseMessage)
                             : !Object.keys(responseMessage).some((key) => key.match(requiredKey)?.[0] === key
                 )))) {
-                    reject(new Error('TEN31 Pass did not return expected response.'));
+                    reject(new UnexpectedResponseError());
                 } else if (responseMessage.status !== ResponseStatus.Success) {
-                    reject(new Error(`TEN31 Pass rejected request with error: ${responseMessage.status}`, {
-                        cause: new Error(responseMessage.status),
-                    }));
+                    reject(new RequestRejectedError(responseMessage.status));
                 } else {
                     // only expose expected properties
                     delete (responseMessage as Partial<typeof responseMessage>).status;
                     resolve(responseMessage);
                 }
             };
+            onPopupMessage = (event: MessageEvent<unknown>) => {
+                if (event.origin !== this._endpointOrigin) return;
+                onResponseMessage(event.data);
+            };
+            onRelayMessage = (event: MessageEvent<unknown> | StorageEvent) => {
+                // Redirect responses relayed by the popup, see relayResponse
+                let relayMessage: unknown;
+                if ('key' in event) {
+                    // storage event
+                    if (event.key !== PopupBehavior.RELAY_EVENT || !event.newValue) return;
+                    try {
+                        relayMessage = JSON.parse(event.newValue);
+                    } catch (e) {
+                        return; // ignore malformed messages
+                    }
+                } else {
+                    // window message from the same origin or broadcast channel message (with empty origin)
+                    if (event.origin && event.origin !== window.location.origin) return;
+                    relayMessage = event.data;
+                }
+                if (!relayMessage || typeof relayMessage !== 'object'
+                    || (relayMessage as PopupBehavior.RelayMessage).event !== PopupBehavior.RELAY_EVENT
+                    || !options.requestId || (relayMessage as PopupBehavior.RelayMessage).nonce !== options.requestId) {
+                    return;
+                }
+                onResponseMessage((relayMessage as PopupBehavior.RelayMessage).responseMessage);
+            };
 
             window.addEventListener('message', onPopupMessage);
+            window.addEventListener('message', onRelayMessage);
+            window.addEventListener('storage', onRelayMessage);
+            if (typeof BroadcastChannel !== 'undefined') {
+                relayChannel = new BroadcastChannel(PopupBehavior.RELAY_EVENT);
+                relayChannel.addEventListener('message', onRelayMessage);
+            }
+            // Keeps running for a grace period after the request settled, e.g. on success or abort, such that
+            // popup-closed is also emitted if TEN31 Pass or the abort close the popup. Rejecting has no effect anymore
+            // in that case.
             closeCheckInterval = window.setInterval(() => {
                 if (!popup.closed) return;
-                reject(new Error('TEN31 Pass popup closed'));
+                window.clearInterval(closeCheckInterval);
+                onEvent('popup-closed');
+                reject(new PopupClosedError());
             }, 300);
             overlayOptions.onCallbackError = reject;
+            onAbort = () => {
+                popup.close();
+                reject(PopupBehavior.createAbortError(signal!));
+            };
+            signal?.addEventListener('abort', onAbort);
         }).finally(() => {
-            window.removeEventListener('message', onPopupMessage);
-            window.clearInterval(closeCheckInterval);
-            if (!overlay) return;
-            this.removeOverlay(overlay);
-        });
-    }
-
-    appendPopupOverlay(
-        onFocusRequested: () => void,
-        onCloseRequested: () => void,
-        overlayOptions?: Exclude<PopupBehavior.OverlayOptions['overlay'], boolean> & {
-            onCallbackError?: (e: Error) => void,
-        },
-    ): HTMLDivElement {
-        // Similar to Nimiq Hub's PopupRequestBehavior
-
-        // Define DOM-method abstractions to allow better minification
-        const createElement = document.createElement.bind(document);
-        const appendChild = (node: Node, child: Node) => node.appendChild(child);
-
-        // Overlay background
-        const overlay = createElement('div');
-        overlay.id = 'ten31-pass-overlay'; // styles can be overwritten with css targeting this id
-        const overlayStyle = overlay.style;
-        overlayStyle.position = 'fixed';
-        overlayStyle.top = '0';
-        overlayStyle.right = '0';
-        overlayStyle.bottom = '0';
-        overlayStyle.left = '0';
-        overlayStyle.background = 'rgba(31, 35, 72, 0.8)';
-        overlayStyle.display = 'flex';
-        overlayStyle.flexDirection = 'column';
-        overlayStyle.alignItems = 'center';
-        overlayStyle.justifyContent = 'space-between';
-        overlayStyle.cursor = 'pointer';
-        overlayStyle.color = 'white';
-        overlayStyle.textAlign = 'center';
-        overlayStyle.opacity = '0';
-        overlayStyle.transition = 'opacity .6s ease';
-        overlayStyle.zIndex = '99999';
-        overlay.addEventListener('click', () => {
-            try {
-                onFocusRequested();
-            } catch (e: any) {
-                if (!overlayOptions?.onCallbackError) throw e;
-                overlayOptions.onCallbackError(e);
-            }
-        });
-
-        // Top flex spacer
-        appendChild(overlay, createElement('div'));
-
-        // Explainer text
-        const text = createElement('div');
-        text.className = 'text';
-        text.textContent = overlayOptions?.text
-            || 'A popup has been opened,\nclick anywhere to bring it back to the front.';
-        const textStyle = text.style;
-        textStyle.padding = '20px';
-        textStyle.fontFamily = 'Muli, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen-Sans, Ubuntu, '
-            + 'Cantarell, "Helvetica Neue", sans-serif';
-        textStyle.fontSize = '24px';
-        textStyle.fontWeight = '600';
-        textStyle.lineHeight = '40px';
-        textStyle.whiteSpace = 'pre-line';
-        appendChild(overlay, text);
-
-        // Logo
-        const logo = createElement('img');
-        logo.className = 'logo';
-        logo.src = overlayOptions?.logo
-            || 'data:image/svg+xml,<svg width="150" height="30" viewBox="0 0 75 15" xmlns="http://www.w3.org/2000/svg"><path d="M1 .5H12v2.8H8v11.2H5.1V3.3H1V.5Zm21.5 0H14v14h8.4v-2.8h-5.6V8.9H21V6.1h-4.2V3.3h5.6V.5Zm46.1 0v2.8L66.8.5h-.9v4.2h.9V1.9l1.8 2.8h.8V.5h-.8Zm-5.1 0L65 4.7h-.9l-.3-.8H62l-.3.8H61L62.5.5h1Zm0 2.6L63 1.6l-.6 1.5h1.2Zm-3.3.5a1.1 1.1 0 0 1-1.1 1.1h-2V.5h1.7a1.1 1.1 0 0 1 .7 2 1.1 1.1 0 0 1 .7 1ZM58 2.2h.5a.6.6 0 0 0 .4-1 .6.6 0 0 0-.4 0H58v1Zm1.4 1.3a.6.6 0 0 0-.6-.6H58V4h.8a.6.6 0 0 0 .6-.6ZM74 .5H73L71.5 2V.5h-.8v4.2h.8V3.2l.4-.4L73 4.7h1l-1.6-2.5L74 .5ZM46 5.3 48.8.5h-9.6v2.8H44l-2.6 4.2h2.1c1.3 0 2.3 1 2.3 2.1 0 1.2-1 2.1-2.3 2.1-1 0-2.4-.6-3.5-1.8l-1.5 2.5a7.3 7.3 0 0 0 5 2.1 5 5 0 0 0 5-4.9A4.9 4.9 0 0 0 46 5.3ZM51.1.5l-1.7 2.8h2V12l2.8-4.7V.5h-3.1ZM32.4.5v8.6L27.2.5h-2.8v14h2.8V5.9l5.2 8.6h2.8V.5h-2.8Z" fill="white"/></svg>';
-        logo.style.marginBottom = '56px';
-        appendChild(overlay, logo);
-
-        // Close button
-        const button = createElement('div');
-        button.className = 'close';
-        const buttonStyle = button.style;
-        button.innerHTML = '&times;';
-        buttonStyle.position = 'absolute';
-        buttonStyle.top = '8px';
-        buttonStyle.right = '8px';
-        buttonStyle.fontSize = '24px';
-        buttonStyle.lineHeight = '32px';
-        buttonStyle.fontWeight = '600';
-        buttonStyle.width = '32px';
-        buttonStyle.height = '32px';
-        buttonStyle.opacity = '0.8';
-        button.addEventListener('click', (event) => {
-            event.stopPropagation();
-            try {
-                onCloseRequested();
-            } catch (e: any) {
-                if (!overlayOptions?.onCallbackError) throw e;
-                overlayOptions.onCallbackError(e);
+            // The response has been received via postMessage or is not of interest anymore
+            if (options.requestId) {
+                this.pendingRequestStore.delete(options.requestId);
             }
+            signal?.removeEventListener('abort', onAbort);
+            window.removeEventListener('message', onPopupMessage);
+            window.removeEventListener('message', onRelayMessage);
+            window.removeEventListener('storage', onRelayMessage);
+            relayChannel?.close();
+            window.setTimeout(() => window.clearInterval(closeCheckInterval), PopupBehavior.CLOSE_CHECK_GRACE_PERIOD);
+            overlay?.remove();
         });
-        appendChild(overlay, button);
-
-        // The 100ms delay is not just because the DOM element needs to be rendered before it
-        // can be animated, but also because it actually feels better when there is a short
-        // delay between the opening popup and the background fading.
-        setTimeout(() => overlay.style.opacity = '1', 100);
-
-        return appendChild(document.body, overlay) as HTMLDivElement;
-    }
-
-    private removeOverlay(overlay: HTMLDivElement): void {
-        overlay.style.opacity = '0';
-        setTimeout(() => document.body.removeChild(overlay), 400);
     }
 }
 
@@ -402,15 +451,31 @@ namespace PopupBehavior {
         responseEvent: string,
         responseFilter?: (responseMessage: ResponseMessage<T>) => boolean,
         requiredKeys?: Array<string | RegExp>, // status always required, others only for status === 'Success'
-    }) & OverlayOptions & RedirectBehavior.RecoverStateOptions;
+    }) & OverlayOptions & RedirectBehavior.PendingRequestOptions & {
+        // Notifies about the popup's lifecycle
+        onEvent?: EventCallback,
+        // Closes the popup and removes the overlay on abort. Requests expecting a response reject with a
+        // RequestAbortedError.
+        signal?: AbortSignal,
+    };
+
+    export type EventType = 'popup-opened' | 'popup-refocused' | 'overlay-shown' | 'popup-closed';
+
+    export type EventCallback = {
+        (type: Exclude<EventType, 'popup-refocused'>): void,
+        (type: 'popup-refocused', detail: { reopened: boolean }): void,
+    };
 
     export interface OverlayOptions {
-        overlay?: boolean | {
-            text?: string,
-            logo?: string,
-        },
+        overlay?: boolean | PopupOverlayOptions,
     }
 
+    export type RelayMessage = {
+        event: string,
+        nonce: string,
+        responseMessage: { event: string, status: ResponseStatus },
+    };
+
     export type ResponseMessage<T extends object> = (T & { status: ResponseStatus.Success })
         | { status: Exclude<ResponseStatus, ResponseStatus.Success> };
 }
@@ -0,0 +1,59 @@
+// Environment independent helpers for api requests. Unlike utils.ts, these must not rely on the DOM.
+
+export interface RetryOptions {
+    /** Maximum number of retries after the initial attempt. Defaults to 2. */
+    retries?: number,
+    /** Delay in ms before the first retry, which grows exponentially for subsequent retries. Defaults to 300. */
+    minDelay?: number,
+    /** Upper bound in ms for the delay between retries. Defaults to 5000. */
+    maxDelay?: number,
+    /** Growth factor of the delay per retry. Defaults to 2. */
+    factor?: number,
+    /** Whether to randomize delays ("full jitter") to avoid synchronized retries of many clients. Defaults to true. */
+    jitter?: boolean,
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+    retries: 2,
+    minDelay: 300,
+    maxDelay: 5000,
+    factor: 2,
+    jitter: true,
+};
+
+/** Calculate the delay before retry number `attempt`, starting at 0, via exponential backoff. */
+export function getBackoffDelay(
+    attempt: number,
+    { minDelay, maxDelay, factor, jitter }: Omit<Required<RetryOptions>, 'retries'> = DEFAULT_RETRY_OPTIONS,
+): number {
+    const delay = Math.min(minDelay * factor ** attempt, maxDelay);
+    return jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Calculate the delay before poll number `attempt`, starting at 0, via exponential backoff. Unlike for retries, jitter
+ * is bounded to between half and the full delay, but at least minDelay, such that polls keep the minimum interval.
+ */
+export function getPollingDelay(attempt: number, options: Omit<Required<RetryOptions>, 'retries'>): number {
+    const delay = getBackoffDelay(attempt, { ...options, jitter: false });
+    return options.jitter ? Math.max(delay / 2 + Math.random() * delay / 2, options.minDelay) : delay;
+}
+
+/** Wait for the specified time. Rejects with the signal's abort reason if aborted. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(signal!.reason);
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
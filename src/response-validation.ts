@@ -0,0 +1,137 @@
+import { ResponseValidationError } from './errors';
+
+/** Description of an expected value, see validateResponse. */
+export type Schema = 'string' | 'boolean' | 'unknown'
+    | { optional: Schema }
+    | { nullable: Schema }
+    | { array: Schema }
+    | { record: Schema }
+    | { object: Record<string, Schema> };
+
+const APP_INFO: Schema = {
+    object: {
+        id: 'string',
+        displayName: 'string',
+        hasLogo: 'boolean',
+        redirect: 'string',
+        fragment: 'boolean',
+    },
+};
+
+const SERVICE_USAGE_INFO: Schema = {
+    object: {
+        id: 'string',
+        displayName: 'string',
+        hasLogo: 'boolean',
+        description: { optional: { nullable: 'string' } },
+        fields: { array: 'string' },
+    },
+};
+
+const SERVICE_INFO: Schema = {
+    object: {
+        id: 'string',
+        displayName: 'string',
+        hasLogo: 'boolean',
+        usages: { record: SERVICE_USAGE_INFO },
+    },
+};
+
+const USER_INFO: Schema = {
+    object: {
+        id: 'string',
+        email: 'string',
+        displayName: 'string',
+        identifications: {
+            array: {
+                object: {
+                    provider: 'string',
+                    expiry: 'string',
+                },
+            },
+        },
+    },
+};
+
+const APP_GRANT_INFO: Schema = {
+    object: {
+        id: 'string',
+        timestamp: 'string',
+        app: APP_INFO,
+        user: USER_INFO,
+    },
+};
+
+const SERVICE_GRANT_INFO_FIELDS: Record<string, Schema> = {
+    id: 'string',
+    timestamp: 'string',
+    serviceId: 'string',
+    appId: 'string',
+    token: 'string',
+    usages: { record: { record: 'unknown' } },
+};
+
+const SERVICE_GRANT_INFO: Schema = {
+    object: {
+        ...SERVICE_GRANT_INFO_FIELDS,
+        consumption: { optional: { record: { record: 'unknown' } } },
+        user: { optional: USER_INFO },
+    },
+};
+
+// Service grant info as returned for requests with a valid service api key
+const SERVICE_GRANT_INFO_WITH_API_KEY: Schema = {
+    object: {
+        ...SERVICE_GRANT_INFO_FIELDS,
+        consumption: { record: { record: 'unknown' } },
+        user: USER_INFO,
+    },
+};
+
+/** Schemas of the api responses of TEN31 Pass. */
+export const RESPONSE_SCHEMAS = {
+    appInfo: APP_INFO,
+    serviceInfo: SERVICE_INFO,
+    appGrantInfo: APP_GRANT_INFO,
+    serviceGrantInfo: SERVICE_GRANT_INFO,
+    serviceGrantInfoWithApiKey: SERVICE_GRANT_INFO_WITH_API_KEY,
+};
+
+/**
+ * Validate an api response against a schema. Throws a ResponseValidationError naming the first offending field.
+ * Additional fields which are not part of the schema are allowed, such that TEN31 Pass can extend its responses.
+ */
+export function validateResponse<T>(schema: Schema, value: unknown, path: string): T {
+    validateValue(schema, value, path, '');
+    return value as T;
+}
+
+function validateValue(schema: Schema, value: unknown, path: string, field: string): void {
+    const fail = (expected: string) => {
+        throw new ResponseValidationError(path, field, expected, describeValue(value));
+    };
+    if (typeof schema === 'string') {
+        if (schema !== 'unknown' && typeof value !== schema) fail(`a ${schema}`);
+    } else if ('optional' in schema) {
+        if (value !== undefined) validateValue(schema.optional, value, path, field);
+    } else if ('nullable' in schema) {
+        if (value !== null) validateValue(schema.nullable, value, path, field);
+    } else if ('array' in schema) {
+        if (!Array.isArray(value)) fail('an array');
+        (value as unknown[]).forEach((entry, i) => validateValue(schema.array, entry, path, `${field}[${i}]`));
+    } else {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) fail('an object');
+        const entries: Array<[string, Schema]> = 'record' in schema
+            ? Object.keys(value as object).map((key) => [key, schema.record])
+            : Object.entries(schema.object);
+        for (const [key, entrySchema] of entries) {
+            validateValue(entrySchema, (value as Record<string, unknown>)[key], path, field ? `${field}.${key}` : key);
+        }
+    }
+}
+
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return typeof value === 'object' ? 'an object' : typeof value;
+}
@@ -0,0 +1,681 @@
+import type {
+    Endpoint,
+    AppInfo,
+    ServiceInfo,
+    ServiceUsageInfo,
+    AppGrantInfo,
+    ServiceGrantInfo,
+    ServiceRegistry,
+    ServiceRequest,
+} from './types';
+import {
+    GrantRequestValidationError,
+    HttpError,
+    InvalidRequestError,
+    InvalidServiceApiKeyError,
+    NetworkError,
+    RequestAbortedError,
+    RequestTimeoutError,
+    ServiceGrantUnavailableError,
+    UnexpectedResponseError,
+} from './errors';
+import { DEFAULT_RETRY_OPTIONS, getBackoffDelay, getPollingDelay, sleep, type RetryOptions } from './request-utils';
+import { Cache, type CacheOptions } from './cache';
+import { ServiceGrant } from './service-grant';
+import { findGrantRequestProblems, type GrantRequestProblem } from './grant-request-validation';
+import { RESPONSE_SCHEMAS, validateResponse, type Schema } from './response-validation';
+
+export * from './types';
+export * from './errors';
+export {
+    ServiceGrantTokenVerifier,
+    decodeServiceGrantToken,
+    type ServiceGrantTokenClaims,
+    type ServiceGrantTokenVerifierOptions,
+    type ServiceGrantTokenVerificationKey,
+    type JsonWebKeySet,
+} from './service-grant-token';
+export {
+    renderServiceRequestPreview,
+    renderUsageDescription,
+    type RenderOptions,
+    type RenderedUsageDescription,
+    type ServiceRequestPreview,
+} from './usage-description';
+export { ServiceGrant, type GrantedUsage, type ConsumedUsage } from './service-grant';
+export type { RetryOptions, CacheOptions, GrantRequestProblem };
+
+export interface Ten31PassServerApiOptions {
+    /** Custom fetch implementation, e.g. for environments without a global fetch. Defaults to the global fetch. */
+    fetch?: typeof fetch,
+    /** Default timeout in ms for api calls, including retries. By default, there is no timeout. */
+    timeout?: number,
+    /**
+     * Default retry behavior for idempotent api calls failing with network errors or 5xx http errors. Retries use
+     * exponential backoff with jitter. Set to false to disable retries. Non-idempotent calls are never retried.
+     */
+    retry?: RetryOptions | false,
+    /**
+     * Whether to cache app and service info fetched via getAppInfo and getServiceInfo, including null results for
+     * deactivated apps and services. Concurrent calls for the same id are deduplicated. Disabled by default.
+     */
+    cache?: boolean | CacheOptions,
+    /**
+     * Whether to validate api responses at runtime, such that malformed or changed responses fail with a
+     * ResponseValidationError naming the offending field, instead of causing errors later on. Disabled by default.
+     */
+    strict?: boolean,
+    /**
+     * Custom resolution of logo urls, see getAppLogoUrl, getServiceLogoUrl and getServiceUsageLogoUrl. TEN31 Pass does
+     * not include logo urls in its info responses, but only hasLogo flags. By default, logos are therefore expected at
+     * the path of the respective public api resource suffixed by /logo, see getDefaultLogoPath, which is also how the
+     * mock server serves them. Set this if TEN31 Pass serves logos at different urls.
+     */
+    logoUrl?: (logo: LogoReference) => string,
+}
+
+/** Reference to the logo of an app, service or service usage, see Ten31PassServerApiOptions.logoUrl. */
+export type LogoReference =
+    | { type: 'app', appId: string }
+    | { type: 'service', serviceId: string }
+    | { type: 'service-usage', serviceId: string, usageId: string };
+
+/** Per-call options of api calls, overwriting the defaults set for the client. */
+export interface RequestOptions {
+    /** Signal to cancel the call with, in which case it rejects with a RequestAbortedError. */
+    signal?: AbortSignal,
+    /** Timeout in ms for the call, including retries, after which it rejects with a RequestTimeoutError. */
+    timeout?: number,
+    /** Retry behavior for the call. Only applicable to idempotent calls. */
+    retry?: RetryOptions | false,
+}
+
+/** Usage grants of a service grant to consume via consumeServiceGrants. */
+export interface ServiceGrantConsumptionRequest {
+    serviceGrantId: string,
+    usageGrants: Array<{ usageGrantId: string, metadata?: Record<string, unknown> }>,
+}
+
+/**
+ * Result of consumeServiceGrants for a usage grant:
+ * - consumed: consumed by this call, with the consumption metadata as stored by TEN31 Pass.
+ * - already-consumed: consumed before, e.g. by a previous attempt or another system, with the existing metadata.
+ * - not-found: the usage grant is not part of the service grant.
+ * - service-deactivated: the service grant's service is deactivated, or the service grant does not exist, which
+ *   TEN31 Pass does not distinguish.
+ * - failed: the consumption failed and the usage grant is known to not be consumed, or its state could not be
+ *   determined. It can safely be retried via consumeServiceGrants.
+ */
+export type UsageGrantConsumptionResult = { serviceGrantId: string, usageGrantId: string } & (
+    | { status: 'consumed' | 'already-consumed', metadata: Record<string, unknown> }
+    | { status: 'not-found' | 'service-deactivated' }
+    | { status: 'failed', error: unknown }
+);
+
+/** Options of waitForServiceGrant and watchServiceGrant. */
+export interface WatchServiceGrantOptions extends Omit<RequestOptions, 'retry'> {
+    /**
+     * Backoff of the polling interval, which grows from minDelay to maxDelay while the service grant does not change,
+     * and is reset on changes. Defaults to polling between every 1s and 30s, growing by factor 1.5. With jitter, which
+     * is enabled by default, delays are randomized to between half and the full delay, but never below minDelay.
+     * Individual polls are retried according to the client's retry options.
+     */
+    backoff?: Omit<RetryOptions, 'retries'>,
+}
+
+const DEFAULT_WATCH_BACKOFF: Omit<Required<RetryOptions>, 'retries'> = {
+    minDelay: 1000,
+    maxDelay: 30000,
+    factor: 1.5,
+    jitter: true,
+};
+
+/**
+ * Client for TEN31 Pass's public api, without any window, popup or redirect functionality. As such, it can be used in
+ * any environment that supports fetch, including Node, workers and during server-side rendering. For requesting grants
+ * in the browser, use Ten31PassApi which extends this class.
+ */
+export default class Ten31PassServerApi {
+    public readonly endpoint: Endpoint | string;
+    private readonly _fetch: typeof fetch;
+    private readonly _timeout?: number;
+    private readonly _retry: RetryOptions | false;
+    private readonly _strict: boolean;
+    private readonly _logoUrl: (logo: LogoReference) => string;
+    private readonly _appInfoCache?: Cache<AppInfo | null>;
+    private readonly _serviceInfoCache?: Cache<ServiceInfo | null>;
+
+    constructor(
+        endpoint: Endpoint | string,
+        {
+            fetch: fetchImplementation,
+            timeout,
+            retry = {},
+            cache = false,
+            strict = false,
+            logoUrl,
+        }: Ten31PassServerApiOptions = {},
+    ) {
+        endpoint = endpoint.replace(/\/?$/, '/'); // make sure there is a trailing slash
+        this.endpoint = endpoint;
+        // Don't reference the global fetch directly to not invoke it with a wrong this, and to resolve it lazily.
+        this._fetch = fetchImplementation || ((input, init) => fetch(input, init));
+        this._timeout = timeout;
+        this._retry = retry;
+        this._strict = strict;
+        this._logoUrl = logoUrl || ((logo) => `${this.endpoint}${getDefaultLogoPath(logo)}`);
+        if (cache) {
+            const cacheOptions = typeof cache === 'object' ? cache : {};
+            this._appInfoCache = new Cache(cacheOptions);
+            this._serviceInfoCache = new Cache(cacheOptions);
+        }
+    }
+
+    /**
+     * Fetch info about an app in the TEN31 Pass database.
+     * Deactivated apps are reported as null.
+     * If caching is enabled, cached results are returned.
+     */
+    async getAppInfo(appId: string, options?: RequestOptions): Promise<AppInfo | null> {
+        return this._fetchCachedData(this._appInfoCache, appId, `api/public/app/${appId}`, RESPONSE_SCHEMAS.appInfo,
+            options);
+    }
+
+    /**
+     * Fetch info about a service and associated supported service usages in the TEN31 Pass database.
+     * Deactivated services are reported as null. Deactivated service usages are omitted.
+     * If caching is enabled, cached results are returned.
+     */
+    async getServiceInfo(serviceId: string, options?: RequestOptions): Promise<ServiceInfo | null> {
+        return this._fetchCachedData(this._serviceInfoCache, serviceId, `api/public/service/${serviceId}`,
+            RESPONSE_SCHEMAS.serviceInfo, options);
+    }
+
+    /** Url of an app's logo provided by TEN31 Pass, or null if TEN31 Pass provides no logo for the app. */
+    getAppLogoUrl({ id, hasLogo }: Pick<AppInfo, 'id' | 'hasLogo'>): string | null {
+        return hasLogo ? this._logoUrl({ type: 'app', appId: id }) : null;
+    }
+
+    /** Url of a service's logo provided by TEN31 Pass, or null if TEN31 Pass provides no logo for the service. */
+    getServiceLogoUrl({ id, hasLogo }: Pick<ServiceInfo, 'id' | 'hasLogo'>): string | null {
+        return hasLogo ? this._logoUrl({ type: 'service', serviceId: id }) : null;
+    }
+
+    /**
+     * Url of a service usage's logo provided by TEN31 Pass, or null if TEN31 Pass provides no logo for the service
+     * usage.
+     */
+    getServiceUsageLogoUrl(
+        service: Pick<ServiceInfo, 'id'> | string,
+        { id, hasLogo }: Pick<ServiceUsageInfo, 'id' | 'hasLogo'>,
+    ): string | null {
+        const serviceId = typeof service === 'string' ? service : service.id;
+        return hasLogo ? this._logoUrl({ type: 'service-usage', serviceId, usageId: id }) : null;
+    }
+
+    /**
+     * Check requested services and usages against the services' info fetched from TEN31 Pass, to detect typos in ids,
+     * deactivated services or usages, and missing, unknown or non-serializable usage parameters, before sending the
+     * request to TEN31 Pass. Returns the list of problems found, which is empty for valid requests.
+     * As popups need to be opened synchronously on user interaction to not be blocked, this check is not run as part
+     * of requestGrants. Instead, validate requests beforehand, e.g. when rendering the button that triggers them.
+     */
+    async validateGrantRequest(services: ServiceRequest[], options?: RequestOptions)
+        : Promise<GrantRequestProblem[]> {
+        const serviceIds = [...new Set(services.map(({ serviceId }) => serviceId))];
+        const serviceInfos = await Promise.all(serviceIds.map((serviceId) => this.getServiceInfo(serviceId, options)));
+        return findGrantRequestProblems(services, Object.fromEntries(serviceIds.map(
+            (serviceId, i) => [serviceId, serviceInfos[i]],
+        )));
+    }
+
+    /** Like validateGrantRequest, but throws a GrantRequestValidationError listing the problems if any were found. */
+    async assertValidGrantRequest(services: ServiceRequest[], options?: RequestOptions): Promise<void> {
+        const problems = await this.validateGrantRequest(services, options);
+        if (problems.length) throw new GrantRequestValidationError(problems);
+    }
+
+    /**
+     * Invalidate cached app or service info for a specific id, all cached info of a type, or all cached info if no type
+     * is specified. Has no effect if caching is disabled.
+     */
+    invalidateCache(type?: 'app' | 'service', id?: string): void {
+        if (type !== 'service') this._appInfoCache?.invalidate(id);
+        if (type !== 'app') this._serviceInfoCache?.invalidate(id);
+    }
+
+    /**
+     * Fetch info about an app grant and the associated app as well as the user who granted the app access.
+     * Expired / deactivated grants and grants for deactivated apps are reported as null.
+     */
+    async getAppGrantInfo(appGrantId: string, options?: RequestOptions): Promise<AppGrantInfo | null> {
+        const path = `api/public/grant/app/${appGrantId}`;
+        return this._validateResponse(RESPONSE_SCHEMAS.appGrantInfo, path,
+            await this._fetchData(path, undefined, undefined, options));
+    }
+
+    /**
+     * Fetch info about a service grant and the associated service usage grants and parameters.
+     * Grants for deactivated services are reported as null.
+     * Optionally, info about which usage grants have been consumed already and the associated consumption metadata as
+     * well as info about the user who granted the service access can be fetched by including the valid service api key
+     * of the service this grant is for. Invalid service api keys behave like not being submitted.
+     * When submitting the api key for your registered service, be sure that it can safely be used in your code without
+     * being leaked. To pass request options without an api key, pass undefined as serviceApiKey.
+     * For type-safe usages, pass a ServiceRegistry and the id of the service the grant is for as type arguments. Note
+     * that the types are not checked against the actual response, unless the strict option is enabled.
+     */
+    async getServiceGrantInfo<
+        Registry extends ServiceRegistry = ServiceRegistry,
+        ServiceId extends keyof Registry & string = keyof Registry & string,
+    >(serviceGrantId: string, serviceApiKey?: undefined, options?: RequestOptions)
+        : Promise<Omit<ServiceGrantInfo<Registry, ServiceId>, 'consumption' | 'user'> | null>
+    async getServiceGrantInfo<
+        Registry extends ServiceRegistry = ServiceRegistry,
+        ServiceId extends keyof Registry & string = keyof Registry & string,
+    >(serviceGrantId: string, serviceApiKey: string, options?: RequestOptions)
+        : Promise<ServiceGrantInfo<Registry, ServiceId> | null>
+    async getServiceGrantInfo(serviceGrantId: string, serviceApiKey?: string, options?: RequestOptions)
+        : Promise<ServiceGrantInfo | Omit<ServiceGrantInfo, 'consumption' | 'user'> | null> {
+        const path = `api/public/grant/service/${serviceGrantId}`;
+        // Without an api key, and for invalid api keys, consumption and user are omitted.
+        return this._validateResponse(RESPONSE_SCHEMAS.serviceGrantInfo, path,
+            await this._fetchData(path, serviceApiKey, undefined, options));
+    }
+
+    /**
+     * Consume service usage grants of a service grant, optionally adding arbitrary metadata like oasis contract id,
+     * swap addresses, etc.
+     * The call terminates with null, if the service grant's associated service is deactivated, and throws for invalid
+     * service api keys, usage grants not associated with the service grant identified by serviceGrantId, or if
+     * attempting to consume a usage grant which has already been consumed.
+     * When submitting the api key for your registered service, be sure that it can safely be used in your code without
+     * being leaked.
+     * As consumption is not idempotent, this call is never retried, regardless of the retry options. Note that on
+     * timeouts or aborts, the consumption might still have been executed by TEN31 Pass.
+     * For type-safe usage grant ids and usages in the returned info, pass a ServiceRegistry and the service id as type
+     * arguments, see getServiceGrantInfo. Usage grant ids are the ids of the granted service usages.
+     */
+    async consumeServiceGrant<
+        Registry extends ServiceRegistry = ServiceRegistry,
+        ServiceId extends keyof Registry & string = keyof Registry & string,
+    >(
+        serviceGrantId: string,
+        usageGrants: Array<{ usageGrantId: keyof Registry[ServiceId] & string, metadata?: Record<string, unknown> }>,
+        serviceApiKey: string,
+        options?: Omit<RequestOptions, 'retry'>,
+    ): Promise<Required<ServiceGrantInfo<Registry, ServiceId>> | null> {
+        const path = `api/public/grant/service/${serviceGrantId}/consume`;
+        return this._validateResponse(RESPONSE_SCHEMAS.serviceGrantInfoWithApiKey, path, await this._fetchData(path,
+            serviceApiKey, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            // convert our more user-friendly request format into ten31's
+            body: JSON.stringify(usageGrants.reduce((convertedUsageGrants, { usageGrantId, metadata }) => {
+                if (usageGrantId in convertedUsageGrants) throw new InvalidRequestError();
+                convertedUsageGrants[usageGrantId] = metadata || {};
+                return convertedUsageGrants;
+            }, {} as Record</* usage grant id */ string, /* metadata */ Record<string, unknown>>)),
+        }, options));
+    }
+
+    /**
+     * Consume usage grants of multiple service grants of a service, and report a result per usage grant instead of
+     * failing entirely, see UsageGrantConsumptionResult. Results are in the order of the requested usage grants.
+     * Consumption is idempotent: usage grants which have been consumed already, e.g. by a previous call whose outcome
+     * was unknown due to a timeout, are not consumed again but reported as already-consumed with their existing
+     * metadata. If consuming fails, the actual state is reconciled by reading the service grant's consumption again.
+     * For definite failures like http errors 4xx, e.g. if another system consumed a usage grant concurrently, usage
+     * grants are then reported as already-consumed, not-found or failed, but never as consumed. For ambiguous failures,
+     * i.e. network errors, timeouts, http errors 5xx and malformed responses, after which the consumption might have
+     * been executed regardless, usage grants are reported as consumed only if their stored metadata matches the
+     * submitted, non-empty metadata, as proof that this call consumed them. Submit unique metadata, e.g. a settlement
+     * id, to make use of this. Usage grants consumed without proof are reported as already-consumed.
+     * Throws an InvalidRequestError for duplicate service grants, whose usage grants have to be combined into a single
+     * entry, and for duplicate usage grants of a service grant. Throws a RequestAbortedError if aborted via option
+     * signal. In that case, the state of the usage grants is unknown, and can be reconciled by calling
+     * consumeServiceGrants again.
+     */
+    async consumeServiceGrants(
+        serviceGrants: ServiceGrantConsumptionRequest[],
+        serviceApiKey: string,
+        options?: Omit<RequestOptions, 'retry'>,
+    ): Promise<UsageGrantConsumptionResult[]> {
+        const serviceGrantIds = serviceGrants.map(({ serviceGrantId }) => serviceGrantId);
+        if (new Set(serviceGrantIds).size !== serviceGrantIds.length) throw new InvalidRequestError();
+        for (const { usageGrants } of serviceGrants) {
+            const usageGrantIds = usageGrants.map(({ usageGrantId }) => usageGrantId);
+            if (new Set(usageGrantIds).size !== usageGrantIds.length) throw new InvalidRequestError();
+        }
+        const results = await Promise.all(serviceGrants.map((serviceGrant) =>
+            this._consumeServiceGrantIdempotently(serviceGrant, serviceApiKey, options)));
+        return results.flat();
+    }
+
+    /**
+     * Poll a service grant until the predicate matches, for example until a usage grant has been consumed, possibly by
+     * another system: `waitForServiceGrant(id, apiKey, ({ consumption }) => 'my-usage' in consumption)`. Resolves with
+     * the matching service grant info. Option timeout applies to the entire wait, after which it rejects with a
+     * RequestTimeoutError. Rejects with a RequestAbortedError if aborted via option signal, with a
+     * ServiceGrantUnavailableError if the service grant does not exist (anymore) or its service is deactivated, and
+     * with an InvalidServiceApiKeyError if the service api key is not accepted for the service grant.
+     * See getServiceGrantInfo regarding the api key and type arguments.
+     */
+    async waitForServiceGrant<
+        Registry extends ServiceRegistry = ServiceRegistry,
+        ServiceId extends keyof Registry & string = keyof Registry & string,
+    >(
+        serviceGrantId: string,
+        serviceApiKey: string,
+        predicate: (serviceGrantInfo: Required<ServiceGrantInfo<Registry, ServiceId>>) => boolean,
+        options?: WatchServiceGrantOptions,
+    ): Promise<Required<ServiceGrantInfo<Registry, ServiceId>>> {
+        for await (const serviceGrantInfo of this.watchServiceGrant<Registry, ServiceId>(serviceGrantId,
+            serviceApiKey, options)) {
+            if (predicate(serviceGrantInfo)) return serviceGrantInfo;
+        }
+        // Not reachable, as the watcher only ends by throwing.
+        throw new ServiceGrantUnavailableError(serviceGrantId);
+    }
+
+    /**
+     * Poll a service grant and yield its info initially and whenever it changed, for long-running watchers. Polling
+     * stops when the iteration is ended, e.g. via break. Throws like waitForServiceGrant.
+     */
+    async* watchServiceGrant<
+        Registry extends ServiceRegistry = ServiceRegistry,
+        ServiceId extends keyof Registry & string = keyof Registry & string,
+    >(
+        serviceGrantId: string,
+        serviceApiKey: string,
+        { signal, timeout, backoff }: WatchServiceGrantOptions = {},
+    ): AsyncGenerator<Required<ServiceGrantInfo<Registry, ServiceId>>, never, undefined> {
+        const path = `api/public/grant/service/${serviceGrantId}`;
+        const backoffOptions = { ...DEFAULT_WATCH_BACKOFF, ...backoff };
+        const { signal: abortSignal, cleanup } = this._createAbortSignal(path, signal, timeout);
+        try {
+            let previousState: string | null = null;
+            for (let attempt = 0; ; ++attempt) {
+                let serviceGrantInfo: ServiceGrantInfo<Registry, ServiceId> | null;
+                try {
+                    serviceGrantInfo = await this.getServiceGrantInfo<Registry, ServiceId>(serviceGrantId,
+                        serviceApiKey, { signal: abortSignal });
+                } catch (e) {
+                    if (abortSignal.aborted) throw abortSignal.reason;
+                    throw e;
+                }
+                if (!serviceGrantInfo) throw new ServiceGrantUnavailableError(serviceGrantId);
+                // Consumption and user are only omitted if the service api key was not accepted.
+                if (!serviceGrantInfo.consumption || !serviceGrantInfo.user) {
+                    throw new InvalidServiceApiKeyError(serviceGrantId);
+                }
+                const state = JSON.stringify(serviceGrantInfo);
+                if (state !== previousState) {
+                    previousState = state;
+                    attempt = 0;
+                    const { consumption, user } = serviceGrantInfo;
+                    yield { ...serviceGrantInfo, consumption, user };
+                }
+                await sleep(getPollingDelay(attempt, backoffOptions), abortSignal);
+            }
+        } finally {
+            cleanup();
+        }
+    }
+
+    private async _consumeServiceGrantIdempotently(
+        { serviceGrantId, usageGrants }: ServiceGrantConsumptionRequest,
+        serviceApiKey: string,
+        options: Omit<RequestOptions, 'retry'> = {},
+    ): Promise<UsageGrantConsumptionResult[]> {
+        const results = new Map<string, UsageGrantConsumptionResult>();
+        const setResults = (
+            usageGrantIds: string[],
+            getResult: (usageGrantId: string) => Omit<UsageGrantConsumptionResult, 'serviceGrantId' | 'usageGrantId'>,
+        ) => {
+            for (const usageGrantId of usageGrantIds) {
+                results.set(usageGrantId, { serviceGrantId, usageGrantId, ...getResult(usageGrantId) } as
+                    UsageGrantConsumptionResult);
+            }
+        };
+        const getFinalResults = () => usageGrants.map(({ usageGrantId }) => results.get(usageGrantId)!);
+        // On failures of a call, all usage grants that do not have a result yet are reported as failed.
+        const handleError = (error: unknown) => {
+            if (options.signal?.aborted) throw error;
+            setResults(usageGrants.map(({ usageGrantId }) => usageGrantId).filter((id) => !results.has(id)),
+                () => ({ status: 'failed', error }));
+            return getFinalResults();
+        };
+
+        // Check the current state first, to not consume usage grants again.
+        let serviceGrantInfo: ServiceGrantInfo | null;
+        try {
+            serviceGrantInfo = await this.getServiceGrantInfo(serviceGrantId, serviceApiKey, options);
+        } catch (e) {
+            return handleError(e);
+        }
+        if (!serviceGrantInfo) {
+            setResults(usageGrants.map(({ usageGrantId }) => usageGrantId), () => ({ status: 'service-deactivated' }));
+            return getFinalResults();
+        }
+        // Usages and consumption are keyed by usage id
+        const usageIds = getUsageIdsByUsageGrantId(serviceGrantInfo);
+        const { consumption = {} } = serviceGrantInfo;
+        const pendingUsageGrants = usageGrants.filter(({ usageGrantId }) => {
+            const usageId = usageIds.get(usageGrantId);
+            if (usageId === undefined) {
+                setResults([usageGrantId], () => ({ status: 'not-found' }));
+            } else if (Object.prototype.hasOwnProperty.call(consumption, usageId)) {
+                setResults([usageGrantId], () => ({ status: 'already-consumed', metadata: consumption[usageId] }));
+            } else {
+                return true;
+            }
+            return false;
+        });
+        if (!pendingUsageGrants.length) return getFinalResults();
+        const pendingUsageGrantIds = pendingUsageGrants.map(({ usageGrantId }) => usageGrantId);
+
+        let consumeError: unknown;
+        let mightHaveConsumed: boolean;
+        try {
+            const consumedServiceGrantInfo = await this.consumeServiceGrant(serviceGrantId, pendingUsageGrants,
+                serviceApiKey, options);
+            if (!consumedServiceGrantInfo) {
+                setResults(pendingUsageGrantIds, () => ({ status: 'service-deactivated' }));
+            } else {
+                const { consumption: newConsumption } = consumedServiceGrantInfo;
+                setResults(pendingUsageGrantIds, (usageGrantId) => {
+                    const usageId = usageIds.get(usageGrantId)!;
+                    return {
+                        status: 'consumed',
+                        metadata: Object.prototype.hasOwnProperty.call(newConsumption, usageId)
+                            ? newConsumption[usageId]
+                            : {},
+                    };
+                });
+            }
+            return getFinalResults();
+        } catch (e) {
+            if (options.signal?.aborted) throw e;
+            consumeError = e;
+            mightHaveConsumed = e instanceof NetworkError || e instanceof RequestTimeoutError
+                || e instanceof UnexpectedResponseError || (e instanceof HttpError && e.status >= 500);
+        }
+
+        // The consumption might have been executed regardless of an ambiguous error, or failed definitely, e.g.
+        // because of concurrent consumption by another system. Reconcile by reading the actual state.
+        let reconciledServiceGrantInfo: ServiceGrantInfo | null;
+        try {
+            reconciledServiceGrantInfo = await this.getServiceGrantInfo(serviceGrantId, serviceApiKey, options);
+        } catch (e) {
+            return handleError(consumeError);
+        }
+        if (!reconciledServiceGrantInfo) {
+            setResults(pendingUsageGrantIds, () => ({ status: 'service-deactivated' }));
+            return getFinalResults();
+        }
+        const reconciledUsageIds = getUsageIdsByUsageGrantId(reconciledServiceGrantInfo);
+        const { consumption: reconciledConsumption = {} } = reconciledServiceGrantInfo;
+        for (const { usageGrantId, metadata = {} } of pendingUsageGrants) {
+            const usageId = reconciledUsageIds.get(usageGrantId);
+            if (usageId === undefined) {
+                setResults([usageGrantId], () => ({ status: 'not-found' }));
+                continue;
+            }
+            if (!Object.prototype.hasOwnProperty.call(reconciledConsumption, usageId)) continue;
+            const existingMetadata = reconciledConsumption[usageId];
+            setResults([usageGrantId], () => ({
+                status: mightHaveConsumed && isConsumptionProof(metadata, existingMetadata)
+                    ? 'consumed'
+                    : 'already-consumed',
+                metadata: existingMetadata,
+            }));
+        }
+        return handleError(consumeError);
+    }
+
+    protected async _fetchData(
+        path: string,
+        serviceApiKey?: string,
+        init: RequestInit = {},
+        { signal, timeout = this._timeout, retry = this._retry }: RequestOptions = {},
+    ): Promise<any | null> {
+        // Only idempotent requests can safely be retried.
+        const retryOptions = retry && (!init.method || init.method === 'GET')
+            ? { ...DEFAULT_RETRY_OPTIONS, ...retry }
+            : null;
+
+        const { signal: abortSignal, cleanup } = this._createAbortSignal(path, signal, timeout);
+        try {
+            for (let attempt = 0; ; ++attempt) {
+                try {
+                    return await this._fetchDataOnce(path, serviceApiKey, { ...init, signal: abortSignal });
+                } catch (e) {
+                    if (abortSignal.aborted) throw abortSignal.reason;
+                    if (!retryOptions || attempt >= retryOptions.retries
+                        || !(e instanceof NetworkError || (e instanceof HttpError && e.status >= 500))) throw e;
+                    await sleep(getBackoffDelay(attempt, retryOptions), abortSignal);
+                }
+            }
+        } finally {
+            cleanup();
+        }
+    }
+
+    private async _fetchCachedData<T>(
+        cache: Cache<T> | undefined,
+        key: string,
+        path: string,
+        schema: Schema,
+        options: RequestOptions = {},
+    ): Promise<T> {
+        if (!cache) {
+            return this._validateResponse(schema, path, await this._fetchData(path, undefined, undefined, options));
+        }
+        // The shared fetch is not bound to the signal and timeout of an individual call, which are instead applied to
+        // the wait for the shared result, such that aborting one call does not affect the other callers. The shared
+        // fetch is subject to the client's default timeout, and aborted once all callers aborted.
+        const { signal, timeout = this._timeout, retry } = options;
+        const { signal: abortSignal, cleanup } = this._createAbortSignal(path, signal, timeout);
+        try {
+            // Validate before caching, such that invalid responses are not cached.
+            return await cache.get(key, async (sharedSignal) => this._validateResponse(schema, path,
+                await this._fetchData(path, undefined, undefined, { retry, signal: sharedSignal })), abortSignal);
+        } finally {
+            cleanup();
+        }
+    }
+
+    /** In strict mode, validate a response against its schema. Null responses for 404s are not validated. */
+    private _validateResponse<T>(schema: Schema, path: string, response: T | null): T | null {
+        if (!this._strict || response === null) return response;
+        return validateResponse(schema, response, path);
+    }
+
+    /**
+     * Combine a caller's signal and a timeout into a single signal, whose abort reason is the error to throw, either a
+     * RequestAbortedError or a RequestTimeoutError.
+     */
+    private _createAbortSignal(path: string, signal?: AbortSignal, timeout?: number)
+        : { signal: AbortSignal, cleanup: () => void } {
+        const abortController = new AbortController();
+        const onAbort = () => abortController.abort(new RequestAbortedError(undefined, { cause: signal!.reason }));
+        if (signal?.aborted) {
+            onAbort();
+        } else {
+            signal?.addEventListener('abort', onAbort, { once: true });
+        }
+        const timeoutId = timeout !== undefined
+            ? setTimeout(() => abortController.abort(new RequestTimeoutError(path, timeout)), timeout)
+            : undefined;
+        return {
+            signal: abortController.signal,
+            cleanup: () => {
+                clearTimeout(timeoutId);
+                signal?.removeEventListener('abort', onAbort);
+            },
+        };
+    }
+
+    private async _fetchDataOnce(path: string, serviceApiKey: string | undefined, init: RequestInit)
+        : Promise<any | null> {
+        let response: Response;
+        try {
+            response = await this._fetch(this.endpoint + path, {
+                ...init,
+                headers: {
+                    ...init.headers,
+                    ...(serviceApiKey ? { 'X-Service-Api-Key': serviceApiKey } : null),
+                }
+            });
+        } catch (e: any) {
+            throw new NetworkError(path, { cause: e });
+        }
+        if (response.status === 404) return null;
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            throw new HttpError(path, response.status, response.statusText, body);
+        }
+        try {
+            return await response.json();
+        } catch (e: any) {
+            throw new UnexpectedResponseError(`TEN31 Pass request to ${path} returned invalid json.`, { cause: e });
+        }
+    }
+}
+
+/**
+ * Default path of a logo relative to the endpoint. These paths are not documented by TEN31 Pass, but follow its public
+ * api's resource paths api/public/app/<appId> and api/public/service/<serviceId>, with usages as sub-resources of their
+ * service, suffixed by /logo.
+ */
+export function getDefaultLogoPath(logo: LogoReference): string {
+    switch (logo.type) {
+        case 'app':
+            return `api/public/app/${encodeURIComponent(logo.appId)}/logo`;
+        case 'service':
+            return `api/public/service/${encodeURIComponent(logo.serviceId)}/logo`;
+        case 'service-usage':
+            return `api/public/service/${encodeURIComponent(logo.serviceId)}/usage/${encodeURIComponent(logo.usageId)}`
+                + '/logo';
+    }
+}
+
+// Map of the usage grant ids of a service grant to the ids of the granted usages, see ServiceGrant.getUsageGrantId.
+function getUsageIdsByUsageGrantId(serviceGrantInfo: Omit<ServiceGrantInfo, 'consumption' | 'user'>)
+    : Map<string, string> {
+    return new Map(Object.keys(serviceGrantInfo.usages).map((usageId) =>
+        [ServiceGrant.getUsageGrantId(usageId), usageId]));
+}
+
+// Whether the metadata stored by TEN31 Pass includes the submitted metadata, which TEN31 Pass might add fields to.
+// Empty metadata is no proof, as it is included in any stored metadata.
+function isConsumptionProof(submitted: Record<string, unknown>, stored: Record<string, unknown>): boolean {
+    const submittedEntries = Object.entries(submitted);
+    return !!submittedEntries.length && submittedEntries.every(([key, value]) =>
+        Object.prototype.hasOwnProperty.call(stored, key) && JSON.stringify(value) === JSON.stringify(stored[key]));
+}
+
+export { Ten31PassServerApi };
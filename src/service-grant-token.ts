@@ -0,0 +1,284 @@
+import type { UsageParameters, UserInfo } from './types';
+import {
+    ServiceGrantTokenError,
+    ServiceGrantTokenExpiredError,
+    ServiceGrantTokenServiceMismatchError,
+    ServiceGrantTokenSignatureError,
+} from './errors';
+
+/** Decoded claims of a service grant token, see ServiceGrantInfo.token. */
+export interface ServiceGrantTokenClaims {
+    /** Id of the service grant */
+    id: string,
+    /** Id of the service this grant is for */
+    serviceId: string,
+    /** Id of the app that requested this service grant */
+    appId: string,
+    /** Map of service usage id -> usage parameters, like in ServiceGrantInfo.usages */
+    usages: Record<string, UsageParameters>,
+    /** The user who confirmed this service grant. Depending on the token, only the id might be included. */
+    user: Pick<UserInfo, 'id'> & Partial<UserInfo>,
+    issuedAt: Date,
+    /** Null for tokens without expiry */
+    expiresAt: Date | null,
+}
+
+/** A JSON web key set as served by JWKS endpoints. */
+export interface JsonWebKeySet {
+    keys: JsonWebKey[],
+}
+
+// The dom lib's JsonWebKey lacks the key id.
+type JsonWebKeyWithId = JsonWebKey & { kid?: string };
+
+export type ServiceGrantTokenVerificationKey = JsonWebKey | JsonWebKeySet | CryptoKey;
+
+export interface ServiceGrantTokenVerifierOptions {
+    /**
+     * TEN31 Pass's public key or keys to verify token signatures with. For JSON web keys, the key type (kty) and curve
+     * (crv) must suit the token's algorithm, and the key id (kid) and algorithm (alg) are respected if set. Keys which
+     * can not be imported are skipped. CryptoKeys must have been imported for usage 'verify'.
+     */
+    keys: ServiceGrantTokenVerificationKey | ServiceGrantTokenVerificationKey[],
+    /** If set, tokens for other services are rejected. Can be overwritten per verify call. */
+    serviceId?: string,
+    /** Tolerated clock skew in seconds when checking the token expiry. Defaults to 60 seconds. */
+    clockTolerance?: number,
+    /** SubtleCrypto implementation to use. Defaults to globalThis.crypto.subtle. */
+    subtle?: SubtleCrypto,
+}
+
+type SignatureAlgorithm = 'RS256' | 'RS384' | 'RS512' | 'PS256' | 'PS384' | 'PS512' | 'ES256' | 'ES384' | 'ES512'
+    | 'EdDSA';
+
+interface TokenHeader {
+    alg: SignatureAlgorithm,
+    kid?: string,
+    typ?: string,
+}
+
+interface TokenPayload {
+    jti: string,
+    service: string,
+    app: string,
+    usages?: Record<string, UsageParameters>,
+    user: string | (Pick<UserInfo, 'id'> & Partial<UserInfo>),
+    iat: number,
+    exp?: number,
+}
+
+const SIGNATURE_ALGORITHMS: Record<SignatureAlgorithm, {
+    // Expected key type (kty) and, if specific to the algorithm, curve (crv) of JSON web keys
+    keyType: 'RSA' | 'EC' | 'OKP',
+    curve?: string,
+    import: RsaHashedImportParams | EcKeyImportParams | Algorithm,
+    verify: RsaPssParams | EcdsaParams | Algorithm,
+}> = {
+    RS256: {
+        keyType: 'RSA',
+        import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        verify: { name: 'RSASSA-PKCS1-v1_5' },
+    },
+    RS384: {
+        keyType: 'RSA',
+        import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+        verify: { name: 'RSASSA-PKCS1-v1_5' },
+    },
+    RS512: {
+        keyType: 'RSA',
+        import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+        verify: { name: 'RSASSA-PKCS1-v1_5' },
+    },
+    PS256: {
+        keyType: 'RSA',
+        import: { name: 'RSA-PSS', hash: 'SHA-256' },
+        verify: { name: 'RSA-PSS', saltLength: 32 },
+    },
+    PS384: {
+        keyType: 'RSA',
+        import: { name: 'RSA-PSS', hash: 'SHA-384' },
+        verify: { name: 'RSA-PSS', saltLength: 48 },
+    },
+    PS512: {
+        keyType: 'RSA',
+        import: { name: 'RSA-PSS', hash: 'SHA-512' },
+        verify: { name: 'RSA-PSS', saltLength: 64 },
+    },
+    ES256: {
+        keyType: 'EC',
+        curve: 'P-256',
+        import: { name: 'ECDSA', namedCurve: 'P-256' },
+        verify: { name: 'ECDSA', hash: 'SHA-256' },
+    },
+    ES384: {
+        keyType: 'EC',
+        curve: 'P-384',
+        import: { name: 'ECDSA', namedCurve: 'P-384' },
+        verify: { name: 'ECDSA', hash: 'SHA-384' },
+    },
+    ES512: {
+        keyType: 'EC',
+        curve: 'P-521',
+        import: { name: 'ECDSA', namedCurve: 'P-521' },
+        verify: { name: 'ECDSA', hash: 'SHA-512' },
+    },
+    EdDSA: { keyType: 'OKP', curve: 'Ed25519', import: { name: 'Ed25519' }, verify: { name: 'Ed25519' } },
+};
+
+/**
+ * Decode a service grant token into its claims, without verifying its signature or expiry. Only use this for tokens
+ * from trusted sources, otherwise use ServiceGrantTokenVerifier.
+ */
+export function decodeServiceGrantToken(token: string): ServiceGrantTokenClaims {
+    return toClaims(parseToken(token).payload);
+}
+
+/**
+ * Offline verification of service grant tokens (ServiceGrantInfo.token) against TEN31 Pass's public key(s), such that
+ * a backend can trust a service grant without fetching it via getServiceGrantInfo.
+ */
+export class ServiceGrantTokenVerifier {
+    private readonly _keys: Array<JsonWebKeyWithId | CryptoKey>;
+    // Imported JSON web keys by algorithm, as keys without alg can be imported for multiple algorithms
+    private readonly _importedKeys = new Map<JsonWebKey, Map<SignatureAlgorithm, Promise<CryptoKey>>>();
+    private readonly _serviceId?: string;
+    private readonly _clockTolerance: number;
+    private readonly _subtle?: SubtleCrypto;
+
+    constructor({ keys, serviceId, clockTolerance = 60, subtle = globalThis.crypto?.subtle }
+        : ServiceGrantTokenVerifierOptions) {
+        this._keys = (Array.isArray(keys) ? keys : [keys]).flatMap((key) => 'keys' in key ? key.keys : [key]);
+        this._serviceId = serviceId;
+        this._clockTolerance = clockTolerance;
+        this._subtle = subtle;
+    }
+
+    /**
+     * Verify a service grant token and return its claims. Throws a ServiceGrantTokenSignatureError,
+     * ServiceGrantTokenExpiredError or ServiceGrantTokenServiceMismatchError for tokens which can not be trusted and a
+     * ServiceGrantTokenError for tokens which can not be processed at all, e.g. for unsupported algorithms or if none
+     * of the matching keys could be used for verification.
+     */
+    async verify(
+        token: string,
+        { serviceId = this._serviceId, now = new Date() }: { serviceId?: string, now?: Date } = {},
+    ): Promise<ServiceGrantTokenClaims> {
+        const { header, payload, signedData, signature } = parseToken(token);
+        if (!Object.prototype.hasOwnProperty.call(SIGNATURE_ALGORITHMS, header.alg)) {
+            throw new ServiceGrantTokenError(`Unsupported token algorithm ${header.alg}.`);
+        }
+        const algorithm = SIGNATURE_ALGORITHMS[header.alg];
+        if (!this._subtle) throw new ServiceGrantTokenError('SubtleCrypto is not available.');
+
+        const candidateKeys = this._keys.filter((key) => isCompatibleKey(key, header.alg, header.kid));
+        if (!candidateKeys.length) throw new ServiceGrantTokenError('No matching key for service grant token.');
+
+        // Keys which fail to import or to verify, e.g. because of unsupported key parameters, are skipped. Only if no
+        // key could be used at all, the last error is reported.
+        let isValidSignature = false;
+        let hasVerified = false;
+        let lastError: any;
+        for (const key of candidateKeys) {
+            try {
+                const cryptoKey = await this._importKey(key, header.alg);
+                isValidSignature = await this._subtle.verify(algorithm.verify, cryptoKey, signature, signedData);
+                hasVerified = true;
+            } catch (e) {
+                lastError = e;
+            }
+            if (isValidSignature) break;
+        }
+        if (!hasVerified) {
+            if (lastError instanceof ServiceGrantTokenError) throw lastError;
+            throw new ServiceGrantTokenError(`Failed to verify service grant token: ${lastError?.message}`,
+                { cause: lastError });
+        }
+        if (!isValidSignature) throw new ServiceGrantTokenSignatureError();
+
+        const claims = toClaims(payload);
+        if (claims.expiresAt && claims.expiresAt.getTime() + this._clockTolerance * 1000 <= now.getTime()) {
+            throw new ServiceGrantTokenExpiredError(claims.expiresAt);
+        }
+        if (serviceId !== undefined && claims.serviceId !== serviceId) {
+            throw new ServiceGrantTokenServiceMismatchError(serviceId, claims.serviceId);
+        }
+        return claims;
+    }
+
+    private _importKey(key: JsonWebKey | CryptoKey, alg: SignatureAlgorithm): Promise<CryptoKey> {
+        if (isCryptoKey(key)) return Promise.resolve(key);
+        let importedKeys = this._importedKeys.get(key);
+        if (!importedKeys) {
+            importedKeys = new Map();
+            this._importedKeys.set(key, importedKeys);
+        }
+        let importedKey = importedKeys.get(alg);
+        if (!importedKey) {
+            importedKey = this._subtle!.importKey('jwk', key, SIGNATURE_ALGORITHMS[alg].import, false, ['verify'])
+                .catch((e) => {
+                    importedKeys!.delete(alg);
+                    throw new ServiceGrantTokenError(`Failed to import verification key: ${e.message}`, { cause: e });
+                });
+            importedKeys.set(alg, importedKey);
+        }
+        return importedKey;
+    }
+}
+
+function parseToken(token: string): {
+    header: TokenHeader,
+    payload: TokenPayload,
+    signedData: Uint8Array,
+    signature: Uint8Array,
+} {
+    const parts = token.split('.');
+    if (parts.length !== 3) throw new ServiceGrantTokenError('Malformed service grant token.');
+    try {
+        return {
+            header: JSON.parse(new TextDecoder().decode(decodeBase64Url(parts[0]))),
+            payload: JSON.parse(new TextDecoder().decode(decodeBase64Url(parts[1]))),
+            signedData: new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+            signature: decodeBase64Url(parts[2]),
+        };
+    } catch (e: any) {
+        throw new ServiceGrantTokenError(`Malformed service grant token: ${e.message}`, { cause: e });
+    }
+}
+
+function toClaims(payload: TokenPayload): ServiceGrantTokenClaims {
+    if (!payload || typeof payload !== 'object' || typeof payload.jti !== 'string'
+        || typeof payload.service !== 'string' || typeof payload.app !== 'string' || !payload.user
+        || typeof payload.iat !== 'number' || (payload.exp !== undefined && typeof payload.exp !== 'number')) {
+        throw new ServiceGrantTokenError('Service grant token is missing expected claims.');
+    }
+    return {
+        id: payload.jti,
+        serviceId: payload.service,
+        appId: payload.app,
+        usages: payload.usages || {},
+        user: typeof payload.user === 'string' ? { id: payload.user } : payload.user,
+        issuedAt: new Date(payload.iat * 1000),
+        expiresAt: payload.exp !== undefined ? new Date(payload.exp * 1000) : null,
+    };
+}
+
+/**
+ * Whether a key can be used for a token's algorithm and key id. JSON web keys must be of the algorithm's key type and
+ * curve, and match the token's kid and alg if set. CryptoKeys must have been imported for the algorithm.
+ */
+function isCompatibleKey(key: JsonWebKeyWithId | CryptoKey, alg: SignatureAlgorithm, kid?: string): boolean {
+    const { keyType, curve, import: importParams } = SIGNATURE_ALGORITHMS[alg];
+    if (isCryptoKey(key)) return key.algorithm.name === importParams.name;
+    return key.kty === keyType && (!curve || !key.crv || key.crv === curve)
+        && (!kid || !key.kid || key.kid === kid) && (!key.alg || key.alg === alg);
+}
+
+function isCryptoKey(key: JsonWebKey | CryptoKey): key is CryptoKey {
+    // Not checked via instanceof, as CryptoKey is not a global in all supported environments.
+    return 'algorithm' in key && 'usages' in key;
+}
+
+function decodeBase64Url(base64Url: string): Uint8Array {
+    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,147 @@
+import type { ServiceGrantInfo, ServiceRegistry } from './types';
+import { ServiceGrantMismatchError } from './errors';
+
+/** A usage granted by a service grant. */
+export interface GrantedUsage<UsageId extends string = string, Parameters = Record<string, unknown>> {
+    /** Id of the service usage */
+    usageId: UsageId,
+    /** Id to consume the usage grant with via consumeServiceGrant or consumeServiceGrants, see getUsageGrantId */
+    usageGrantId: UsageId,
+    parameters: Parameters,
+}
+
+/** A usage of a service grant which has been consumed. */
+export interface ConsumedUsage<
+    UsageId extends string = string,
+    Parameters = Record<string, unknown>,
+    Metadata extends Record<string, unknown> = Record<string, unknown>,
+> extends GrantedUsage<UsageId, Parameters> {
+    /** The consumption metadata */
+    metadata: Metadata,
+    /** Time of consumption as recorded by TEN31 Pass in the metadata, or null if not available */
+    timestamp: Date | null,
+}
+
+type UsageIds<Registry extends ServiceRegistry, ServiceId extends keyof Registry & string> =
+    keyof Registry[ServiceId] & string;
+type UsageParametersOf<Registry extends ServiceRegistry, ServiceId extends keyof Registry & string> =
+    Registry[ServiceId][UsageIds<Registry, ServiceId>];
+
+/**
+ * Wrapper of a fetched ServiceGrantInfo, for working out which usages have been granted and consumed. Info about
+ * consumed usages is only available for service grant info fetched with the service's api key.
+ * For typed usage ids, parameters and metadata, pass a ServiceRegistry, the service id and the metadata type as type
+ * arguments, see getServiceGrantInfo.
+ */
+export class ServiceGrant<
+    Registry extends ServiceRegistry = ServiceRegistry,
+    ServiceId extends keyof Registry & string = keyof Registry & string,
+    Metadata extends Record<string, unknown> = Record<string, unknown>,
+> {
+    /**
+     * Usage grant id of a granted service usage, to consume it with via consumeServiceGrant or consumeServiceGrants.
+     * TEN31 Pass identifies usage grants by the id of the granted service usage, while ServiceGrantInfo.usages and
+     * ServiceGrantInfo.consumption are keyed by service usage id. This is the single place relying on both ids being
+     * the same.
+     */
+    static getUsageGrantId<UsageId extends string>(usageId: UsageId): UsageId {
+        return usageId;
+    }
+
+    constructor(public readonly info: ServiceGrantInfo<Registry, ServiceId>) {}
+
+    get id(): string {
+        return this.info.id;
+    }
+
+    get serviceId(): ServiceId {
+        return this.info.serviceId;
+    }
+
+    get appId(): string {
+        return this.info.appId;
+    }
+
+    /** Whether info about consumed usages is available, which requires fetching the info with the service api key. */
+    get hasConsumptionInfo(): boolean {
+        return !!this.info.consumption;
+    }
+
+    /** All usages granted by this service grant, consumed or not. */
+    get grantedUsages()
+        : Array<GrantedUsage<UsageIds<Registry, ServiceId>, UsageParametersOf<Registry, ServiceId>>> {
+        return Object.entries(this.info.usages).map(([id, parameters]) => {
+            const usageId = id as UsageIds<Registry, ServiceId>;
+            return {
+                usageId,
+                usageGrantId: ServiceGrant.getUsageGrantId(usageId),
+                parameters: parameters as UsageParametersOf<Registry, ServiceId>,
+            };
+        });
+    }
+
+    /** Granted usages which have not been consumed yet. Throws if consumption info is not available. */
+    get unconsumedUsages()
+        : Array<GrantedUsage<UsageIds<Registry, ServiceId>, UsageParametersOf<Registry, ServiceId>>> {
+        const consumption = this._getConsumption();
+        return this.grantedUsages.filter(({ usageId }) => !Object.prototype.hasOwnProperty.call(consumption, usageId));
+    }
+
+    /** Granted usages which have been consumed. Throws if consumption info is not available. */
+    get consumedUsages()
+        : Array<ConsumedUsage<UsageIds<Registry, ServiceId>, UsageParametersOf<Registry, ServiceId>, Metadata>> {
+        const consumption = this._getConsumption();
+        const usages = this.grantedUsages.filter(({ usageId }) =>
+            Object.prototype.hasOwnProperty.call(consumption, usageId));
+        return usages.map((usage) => {
+            const metadata = consumption[usage.usageId] as Metadata;
+            const timestamp = typeof metadata.timestamp === 'string' ? new Date(metadata.timestamp) : null;
+            return {
+                ...usage,
+                metadata,
+                timestamp: timestamp && !Number.isNaN(timestamp.getTime()) ? timestamp : null,
+            };
+        });
+    }
+
+    isGranted(usageId: UsageIds<Registry, ServiceId>): boolean {
+        return Object.prototype.hasOwnProperty.call(this.info.usages, usageId);
+    }
+
+    /** Whether a usage has been consumed. Throws if consumption info is not available. */
+    isConsumed(usageId: UsageIds<Registry, ServiceId>): boolean {
+        return Object.prototype.hasOwnProperty.call(this._getConsumption(), usageId);
+    }
+
+    /** Whether the service grant is for the expected service and, if specified, app. */
+    belongsTo<ExpectedServiceId extends ServiceId>({ serviceId, appId }: {
+        serviceId: ExpectedServiceId,
+        appId?: string,
+    }): this is ServiceGrant<Registry, ExpectedServiceId, Metadata> {
+        return this.info.serviceId === serviceId && (appId === undefined || this.info.appId === appId);
+    }
+
+    /**
+     * Check that the service grant is for the expected service and, if specified, app, for example to reject service
+     * grant ids submitted by users for other services. Throws a ServiceGrantMismatchError otherwise.
+     */
+    assertBelongsTo<ExpectedServiceId extends ServiceId>({ serviceId, appId }: {
+        serviceId: ExpectedServiceId,
+        appId?: string,
+    }): asserts this is ServiceGrant<Registry, ExpectedServiceId, Metadata> {
+        if (this.info.serviceId !== serviceId) {
+            throw new ServiceGrantMismatchError('serviceId', serviceId, this.info.serviceId);
+        }
+        if (appId !== undefined && this.info.appId !== appId) {
+            throw new ServiceGrantMismatchError('appId', appId, this.info.appId);
+        }
+    }
+
+    private _getConsumption(): Record<string, Record<string, unknown>> {
+        if (!this.info.consumption) {
+            throw new Error('TEN31 Pass service grant info was fetched without consumption info. '
+                + 'Fetch it with the service api key.');
+        }
+        return this.info.consumption as Record<string, Record<string, unknown>>;
+    }
+}
@@ -0,0 +1,21 @@
+// Service info shared between the useServiceInfo calls of the framework bindings.
+
+import type Ten31PassApi from './index';
+import type { ServiceInfo } from './types';
+import { Cache } from './cache';
+
+// Per api instance, such that instances for different endpoints do not share info
+const serviceInfoCaches = new WeakMap<Ten31PassApi, Cache<ServiceInfo | null>>();
+
+/**
+ * Fetch a service's info, sharing pending fetches and fetched info between callers with the same api instance, for the
+ * default ttl of Cache. Failed fetches are not cached.
+ */
+export function getSharedServiceInfo(api: Ten31PassApi, serviceId: string): Promise<ServiceInfo | null> {
+    let cache = serviceInfoCaches.get(api);
+    if (!cache) {
+        cache = new Cache();
+        serviceInfoCaches.set(api, cache);
+    }
+    return cache.get(serviceId, (signal) => api.getServiceInfo(serviceId, { signal }));
+}
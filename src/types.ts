@@ -0,0 +1,154 @@
+export enum Endpoint {
+    MAIN = 'https://pass.ten31.com/',
+    TEST = 'https://test.pass.ten31.com/',
+    LOCAL = 'http://localhost:8082/',
+}
+
+export enum ResponseType {
+    POST_MESSAGE = 'post-message',
+    REDIRECT = 'redirect',
+    IMMEDIATE_REDIRECT = 'immediate-redirect', // automatically and immediately redirect without showing success page
+}
+
+/** Status of a response by TEN31 Pass. Failed requests are reported as RequestRejectedError with this status. */
+export enum ResponseStatus {
+    Success = 'Success',
+    Error = 'Error',
+    InvalidRequest = 'InvalidRequest',
+    Unknown = 'Unknown',
+}
+
+export type UsageParameters = Record<string, unknown>;
+
+/**
+ * Map of service id -> service usage id -> usage parameters, describing the services an app works with, for checking
+ * service and usage ids and usage parameters at compile time. Can be generated via the ten31-pass codegen command.
+ * Note that registries need to be declared as type aliases instead of interfaces, to satisfy this constraint.
+ */
+export type ServiceRegistry = Record</* service id */ string, Record</* usage id */ string, UsageParameters>>;
+
+/**
+ * Request for a service and its usages. For a specific ServiceRegistry, only known service and usage ids are accepted
+ * and usage parameters are checked, which are then also required if the usage has any fields.
+ */
+export type ServiceRequest<Registry extends ServiceRegistry = ServiceRegistry> = {
+    [ServiceId in keyof Registry & string]: {
+        serviceId: ServiceId,
+        usages?: Array<UsageRequest<Registry[ServiceId]>>,
+    }
+}[keyof Registry & string];
+
+type UsageRequest<Usages extends Record<string, UsageParameters>> = {
+    [UsageId in keyof Usages & string]: {} extends Usages[UsageId]
+        ? { usageId: UsageId, parameters?: Usages[UsageId] }
+        : { usageId: UsageId, parameters: Usages[UsageId] }
+}[keyof Usages & string];
+
+export interface GrantResponse {
+    /** App grant */
+    app: string,
+    /**
+     * Map of service id -> service grant. Empty object if no service grants were requested / given.
+     * Service usage grants are not included here. They can be fetched via getServiceGrantInfo if needed.
+     */
+    services: Record<string, string>,
+}
+
+export interface AppInfo {
+    id: string,
+    displayName: string,
+    /** Whether TEN31 Pass provides a logo for this app, see getAppLogoUrl */
+    hasLogo: boolean,
+    /** The url where to redirect after redirect requests */
+    redirect: string,
+    /** Whether to encode the redirect result in the url fragment or search query */
+    fragment: boolean,
+}
+
+export interface ServiceInfo {
+    id: string,
+    displayName: string,
+    /** Whether TEN31 Pass provides a logo for this service, see getServiceLogoUrl */
+    hasLogo: boolean,
+    usages: Record</* service usage id */ string, ServiceUsageInfo>
+}
+
+export interface ServiceUsageInfo {
+    id: string,
+    displayName: string,
+    /** Whether TEN31 Pass provides a logo for this service usage, see getServiceUsageLogoUrl */
+    hasLogo: boolean,
+    /** A description, which can optionally contain placeholders for usage parameters, see renderUsageDescription */
+    description?: string | null,
+    /** Names of expected usage parameters */
+    fields: string[],
+}
+
+export interface AppGrantInfo {
+    id: string,
+    /** Date string encoding the first usage time */
+    timestamp: string,
+    app: AppInfo,
+    // note: user is nullable in AppGrantInfo type in the TEN31 Pass code but ensured to be set by getAppGrantInfo
+    user: UserInfo,
+}
+
+export interface UserInfo {
+    id: string,
+    email: string,
+    /** User's name */
+    // note: Can also be the email address until name was provided during signup, however for us here it's always the
+    // user's name as grants can only be given after signup was completed.
+    displayName: string,
+    /** Latest identification for latest user identity if not expired, or an empty list otherwise */
+    // note: By type in TEN31 Pass theoretically a list of all of the user's identifications, however what we're getting
+    // here via api by getUserInfo in TEN31 Pass is the latest identification for the latest identity if user provided
+    // these (completed signup which we can assume here, see above), it's been verified (expiry set, which we can also
+    // assume here as only verified users can give grants) and not expired, or an empty list otherwise.
+    identifications: [IdentificationInfo?],
+}
+
+export interface IdentificationInfo {
+    /** The provider that performed the identification verification */
+    provider: string,
+    /** Date string encoding the expiry time */
+    expiry: string,
+}
+
+/**
+ * Info about a service grant. For a specific ServiceRegistry and ServiceId, usages and consumption are typed according
+ * to the service's usages. Wrap it in a ServiceGrant to work out granted, consumed and unconsumed usages.
+ */
+export interface ServiceGrantInfo<
+    Registry extends ServiceRegistry = ServiceRegistry,
+    ServiceId extends keyof Registry & string = keyof Registry & string,
+> {
+    id: string,
+    /** Date string encoding the time when the service grant was created */
+    timestamp: string,
+    /** Id of the service this grant is for */
+    serviceId: ServiceId,
+    /** Id of the app that requested this service grant */
+    appId: string,
+    /** JWT (JSON web token) representing the service grant. Can be verified via ServiceGrantTokenVerifier. */
+    // note: token is nullable in TEN31 Pass but only for an invalid config. We can assume here that TEN31 Pass is
+    // correctly configured.
+    token: string,
+    /** Map of service usage id (instead of service usage grant id; by mistake?) -> usage parameters */
+    usages: string extends keyof Registry[ServiceId]
+        ? Record<string, UsageParameters>
+        : { [UsageId in keyof Registry[ServiceId]]?: Registry[ServiceId][UsageId] },
+    /**
+     * Consumed / used service usage grants.
+     * Map of service usage id (instead of service usage grant id; by mistake?) -> consumption metadata.
+     * Only available for requests that include the valid service api key of the service this grant is for.
+     */
+    consumption?: string extends keyof Registry[ServiceId]
+        ? Record<string, Record<string, unknown>>
+        : { [UsageId in keyof Registry[ServiceId]]?: Record<string, unknown> },
+    /**
+     * Info about the user who confirmed this service grant.
+     * Only available for requests that include the valid service api key of the service this grant is for.
+     */
+    user?: UserInfo,
+}
@@ -0,0 +1,129 @@
+import type { ServiceInfo, ServiceRequest, UsageParameters } from './types';
+
+export interface RenderOptions {
+    /**
+     * Whether to escape html special characters in descriptions, parameter values and, for previews, service and usage
+     * names, such that the result can safely be inserted as html. Defaults to true.
+     */
+    escapeHtml?: boolean,
+}
+
+export interface RenderedUsageDescription {
+    /** The description with placeholders replaced by parameter values. Unresolved placeholders are kept as is. */
+    text: string,
+    /**
+     * Names of placeholders for which no parameter value was provided, or whose value can not be represented as text,
+     * e.g. functions, symbols or objects with circular references
+     */
+    unresolvedPlaceholders: string[],
+}
+
+/** Preview of a service request as it will be presented to the user by TEN31 Pass, e.g. for consent summaries. */
+export interface ServiceRequestPreview {
+    serviceId: string,
+    serviceName: string,
+    /** Whether TEN31 Pass provides a logo for this service */
+    hasLogo: boolean,
+    usages: Array<{
+        usageId: string,
+        usageName: string,
+        /** Whether TEN31 Pass provides a logo for this service usage */
+        hasLogo: boolean,
+        /** Null if the usage has no description */
+        description: RenderedUsageDescription | null,
+    }>,
+    /** Requested usages which are not listed in the service info, i.e. unknown or deactivated */
+    unknownUsageIds: string[],
+    /** Whether any description contains unresolved placeholders */
+    hasUnresolvedPlaceholders: boolean,
+}
+
+// Placeholders are parameter names in curly braces, e.g. {amount}, with optional whitespace.
+const PLACEHOLDER_REGEX = /{\s*([^{}\s]+)\s*}/g;
+
+/** Fill a service usage description's placeholders with usage parameter values. */
+export function renderUsageDescription(
+    description: string,
+    parameters: UsageParameters = {},
+    options?: RenderOptions,
+): RenderedUsageDescription {
+    const escape = getEscapeFunction(options);
+    const unresolvedPlaceholders: string[] = [];
+    let text = '';
+    let lastIndex = 0;
+    for (const match of description.matchAll(PLACEHOLDER_REGEX)) {
+        const [placeholder, name] = match;
+        text += escape(description.substring(lastIndex, match.index));
+        lastIndex = match.index! + placeholder.length;
+        const value = Object.prototype.hasOwnProperty.call(parameters, name)
+            ? stringifyParameterValue(parameters[name])
+            : null;
+        if (value === null) {
+            if (!unresolvedPlaceholders.includes(name)) unresolvedPlaceholders.push(name);
+            text += escape(placeholder);
+        } else {
+            text += escape(value);
+        }
+    }
+    text += escape(description.substring(lastIndex));
+    return { text, unresolvedPlaceholders };
+}
+
+/**
+ * Render a preview of a service request, with usage descriptions filled in with the requested usage parameters, e.g.
+ * to show a summary of what the user is about to grant before opening TEN31 Pass.
+ */
+export function renderServiceRequestPreview(
+    serviceInfo: ServiceInfo,
+    { serviceId, usages = [] }: ServiceRequest,
+    options?: RenderOptions,
+): ServiceRequestPreview {
+    const escape = getEscapeFunction(options);
+    const preview: ServiceRequestPreview = {
+        serviceId,
+        serviceName: escape(serviceInfo.displayName),
+        hasLogo: serviceInfo.hasLogo,
+        usages: [],
+        unknownUsageIds: [],
+        hasUnresolvedPlaceholders: false,
+    };
+    for (const { usageId, parameters } of usages) {
+        if (!Object.prototype.hasOwnProperty.call(serviceInfo.usages, usageId)) {
+            preview.unknownUsageIds.push(usageId);
+            continue;
+        }
+        const usageInfo = serviceInfo.usages[usageId];
+        const description = usageInfo.description
+            ? renderUsageDescription(usageInfo.description, parameters, options)
+            : null;
+        preview.hasUnresolvedPlaceholders ||= !!description?.unresolvedPlaceholders.length;
+        preview.usages.push({
+            usageId,
+            usageName: escape(usageInfo.displayName),
+            hasLogo: usageInfo.hasLogo,
+            description,
+        });
+    }
+    return preview;
+}
+
+/** Text representation of a parameter value, or null for undefined values and values not representable as text. */
+function stringifyParameterValue(value: unknown): string | null {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'bigint') return value.toString();
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol') return null;
+    try {
+        return JSON.stringify(value) ?? null;
+    } catch (e) {
+        // circular references or nested bigints
+        return null;
+    }
+}
+
+function getEscapeFunction({ escapeHtml = true }: RenderOptions = {}): (text: string) => string {
+    return escapeHtml ? escapeHtmlSpecialChars : (text: string) => text;
+}
+
+function escapeHtmlSpecialChars(text: string): string {
+    return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
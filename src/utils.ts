@@ -26,7 +26,38 @@ export function generateWindowName(url: string): string {
     return `ten31-pass_${url}_${Date.now()}`;
 }
 
+/** Generate a random, unguessable hex string, e.g. for usage as nonce. */
+export function generateNonce(byteLength = 16): string {
+    return Array.from(window.crypto.getRandomValues(new Uint8Array(byteLength)))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
+
 export function isIOS(): boolean {
     // taken from @nimiq/utils/BrowserDetection
     return /iPad|iPhone|iPod/.test(navigator.userAgent) && !(window as any).MSStream;
 }
+
+/**
+ * Preload a logo, e.g. as returned by getAppLogoUrl, such that it can be displayed without delay. Resolves with the
+ * logo url once loaded, or with the fallback if the url is null, or the logo failed to load or did not load within the
+ * timeout. Never rejects.
+ */
+export function preloadLogo(
+    url: string | null,
+    { fallback = null, timeout = 10000 }: { fallback?: string | null, timeout?: number } = {},
+): Promise<string | null> {
+    if (!url) return Promise.resolve(fallback);
+    return new Promise((resolve) => {
+        const image = new Image();
+        const timeoutId = window.setTimeout(() => onDone(fallback), timeout);
+        const onDone = (result: string | null) => {
+            window.clearTimeout(timeoutId);
+            image.onload = image.onerror = null;
+            resolve(result);
+        };
+        image.onload = () => onDone(url);
+        image.onerror = () => onDone(fallback);
+        image.src = url;
+    });
+}
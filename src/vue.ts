@@ -0,0 +1,124 @@
+// Vue 3 bindings.
+
+import {
+    computed,
+    inject,
+    onMounted,
+    onUnmounted,
+    provide,
+    shallowRef,
+    unref,
+    watch,
+    type App,
+    type ComputedRef,
+    type InjectionKey,
+    type Ref,
+} from 'vue';
+import type Ten31PassApi from './index';
+import type { GrantResponse, ServiceInfo, ServiceRequest } from './types';
+import {
+    GrantRequestController,
+    type GrantRequestOptions,
+    type GrantRequestState,
+} from './grant-request-controller';
+import { getSharedServiceInfo } from './service-info-cache';
+
+export type { GrantRequestStatus, GrantRequestState, GrantRequestOptions } from './grant-request-controller';
+export { GrantRequestController } from './grant-request-controller';
+
+export const TEN31_PASS_API_KEY: InjectionKey<Ten31PassApi> = Symbol('ten31-pass-api');
+
+/** Vue plugin providing a Ten31PassApi instance to useTen31PassApi, useGrantRequest and useServiceInfo. */
+export function createTen31PassPlugin(api: Ten31PassApi): { install(app: App): void } {
+    return {
+        install(app: App) {
+            app.provide(TEN31_PASS_API_KEY, api);
+        },
+    };
+}
+
+/** Provide a Ten31PassApi instance to the calling component's descendants. */
+export function provideTen31PassApi(api: Ten31PassApi): void {
+    provide(TEN31_PASS_API_KEY, api);
+}
+
+/** Get the provided Ten31PassApi instance. */
+export function useTen31PassApi(): Ten31PassApi {
+    const api = inject(TEN31_PASS_API_KEY, null);
+    if (!api) throw new Error('useTen31PassApi requires a Ten31PassApi instance provided via createTen31PassPlugin.');
+    return api;
+}
+
+export interface UseGrantRequestResult {
+    state: ComputedRef<GrantRequestState>,
+    /** Request grants via a popup. Never rejects, failures are reported via the state instead. */
+    requestGrants: (
+        appId: string,
+        services?: ServiceRequest[],
+        options?: GrantRequestOptions,
+    ) => Promise<GrantResponse | null>,
+    /** Cancel the pending request, which closes its popup. */
+    cancel: () => void,
+    reset: () => void,
+}
+
+/**
+ * Reactive grant request state with a trigger function. On mount, a grant response received via redirect is
+ * recovered. On unmount, a pending request is cancelled, which closes its popup.
+ */
+export function useGrantRequest(api: Ten31PassApi = useTen31PassApi()): UseGrantRequestResult {
+    const controller = new GrantRequestController(api);
+    const state = shallowRef(controller.state);
+    const unsubscribe = controller.subscribe((newState) => state.value = newState);
+    onMounted(() => controller.recoverRedirectResponse());
+    onUnmounted(() => {
+        unsubscribe();
+        controller.cancel();
+    });
+
+    return {
+        state: computed(() => state.value),
+        requestGrants: controller.requestGrants.bind(controller),
+        cancel: controller.cancel.bind(controller),
+        reset: controller.reset.bind(controller),
+    };
+}
+
+/**
+ * Fetch a service's info, which is shared between components using the same api instance and cached for a minute, and
+ * refetch it when the service id changes. Info is null while loading and for unknown services, in which case error is
+ * set for failed requests.
+ */
+export function useServiceInfo(
+    serviceId: string | null | undefined | Ref<string | null | undefined>,
+    api: Ten31PassApi = useTen31PassApi(),
+): { info: ComputedRef<ServiceInfo | null>, loading: ComputedRef<boolean>, error: ComputedRef<unknown | null> } {
+    const info = shallowRef<ServiceInfo | null>(null);
+    const loading = shallowRef(false);
+    const error = shallowRef<unknown | null>(null);
+    watch(() => unref(serviceId), (currentServiceId, previousServiceId, onCleanup) => {
+        info.value = null;
+        error.value = null;
+        loading.value = !!currentServiceId;
+        if (!currentServiceId) return;
+        let isCurrent = true;
+        onCleanup(() => isCurrent = false);
+        getSharedServiceInfo(api, currentServiceId).then(
+            (serviceInfo) => {
+                if (!isCurrent) return;
+                info.value = serviceInfo;
+                loading.value = false;
+            },
+            (e) => {
+                if (!isCurrent) return;
+                error.value = e;
+                loading.value = false;
+            },
+        );
+    }, { immediate: true });
+    return {
+        info: computed(() => info.value),
+        loading: computed(() => loading.value),
+        error: computed(() => error.value),
+    };
+}
@@ -0,0 +1,221 @@
+// Drop-in <ten31-pass-button> custom element. Importing this entry point registers the element as a side effect.
+
+import Ten31PassApi from './index';
+import { Endpoint, type GrantResponse, type ServiceRequest } from './types';
+import { InvalidRequestError } from './errors';
+import type { PopupOverlayOptions } from './overlay';
+
+export interface Ten31PassButtonGrantEventDetail {
+    response: GrantResponse,
+    /** Whether the response was recovered after a redirect on page load */
+    recovered: boolean,
+}
+
+export interface Ten31PassButtonErrorEventDetail {
+    error: unknown,
+}
+
+// Key under which the requesting button is identified in the redirectRecoverableState
+const RECOVERABLE_STATE_KEY = 'ten31PassButton';
+
+// Api instances are shared by all buttons with the same endpoint, such that redirect responses, which are read once per
+// api instance, are available to all of them.
+const apis = new Map<string, Ten31PassApi>();
+// Redirect response errors, e.g. for unknown responses, are only reported by the first button.
+let hasReportedRedirectResponseError = false;
+
+const STYLES = `
+:host {
+    display: inline-block;
+}
+button {
+    font: inherit;
+    font-weight: 600;
+    padding: var(--ten31-pass-button-padding, .75em 1.5em);
+    border: none;
+    border-radius: var(--ten31-pass-button-border-radius, 500px);
+    background: var(--ten31-pass-button-background, rgb(31, 35, 72));
+    color: var(--ten31-pass-button-color, white);
+    cursor: pointer;
+}
+button:disabled {
+    opacity: .6;
+    cursor: default;
+}
+button:focus-visible {
+    outline: 2px solid var(--ten31-pass-button-focus-color, rgb(31, 35, 72));
+    outline-offset: 2px;
+}`;
+
+/**
+ * Button requesting grants from TEN31 Pass on click, configured via attributes:
+ * - app-id: required
+ * - services: JSON encoded array of ServiceRequests
+ * - endpoint: MAIN (default), TEST, LOCAL or a url
+ * - mode: popup (default) or redirect
+ * - fallback-to-redirect: fall back to a redirect if the popup is blocked
+ * - overlay: set to "false" to disable the popup overlay
+ * - overlay-text, overlay-logo: overlay options
+ * - locale: see Ten31PassApi's locale option
+ * - disabled
+ * Fires a grant event with a Ten31PassButtonGrantEventDetail, also for responses recovered after a redirect, and an
+ * error event with a Ten31PassButtonErrorEventDetail. Both bubble and cross shadow DOM boundaries. Events for recovered
+ * responses are fired once the document has been parsed, such that listeners can be attached by scripts after the
+ * element. The label can be set as content of the element and styles via CSS custom properties or ::part(button).
+ */
+export class Ten31PassButton extends HTMLElement {
+    static readonly observedAttributes = ['disabled'];
+
+    private readonly _button: HTMLButtonElement;
+    private _isPending = false;
+    private _hasCheckedRedirectResponse = false;
+
+    constructor() {
+        super();
+        const shadowRoot = this.attachShadow({ mode: 'open' });
+        const style = document.createElement('style');
+        style.textContent = STYLES;
+        this._button = document.createElement('button');
+        this._button.type = 'button';
+        this._button.setAttribute('part', 'button');
+        const slot = document.createElement('slot');
+        slot.textContent = 'Verify with TEN31 Pass';
+        this._button.appendChild(slot);
+        this._button.addEventListener('click', () => this.requestGrants());
+        shadowRoot.append(style, this._button);
+    }
+
+    get api(): Ten31PassApi {
+        const endpointAttribute = this.getAttribute('endpoint') || 'MAIN';
+        const endpoint = Object.prototype.hasOwnProperty.call(Endpoint, endpointAttribute)
+            ? Endpoint[endpointAttribute as keyof typeof Endpoint]
+            : endpointAttribute;
+        let api = apis.get(endpoint);
+        if (!api) {
+            api = new Ten31PassApi(endpoint);
+            apis.set(endpoint, api);
+        }
+        return api;
+    }
+
+    connectedCallback(): void {
+        this._updateButton();
+        if (this._hasCheckedRedirectResponse) return;
+        this._hasCheckedRedirectResponse = true;
+        this._checkRedirectResponse();
+    }
+
+    attributeChangedCallback(): void {
+        this._updateButton();
+    }
+
+    /** Request grants as configured via the attributes. Called on click. */
+    requestGrants(): void {
+        if (this._isPending) return;
+        try {
+            const appId = this.getAttribute('app-id');
+            if (!appId) throw new InvalidRequestError('TEN31 Pass button is missing the app-id attribute.');
+            let services: ServiceRequest[];
+            try {
+                services = JSON.parse(this.getAttribute('services') || '[]');
+            } catch (e: any) {
+                throw new InvalidRequestError('TEN31 Pass button has an invalid services attribute.', { cause: e });
+            }
+            if (!Array.isArray(services)) {
+                throw new InvalidRequestError('TEN31 Pass button services attribute must be an array.');
+            }
+
+            const responsePromise = this.api.requestGrants(appId, services, this.getAttribute('mode') !== 'redirect', {
+                // Used for identifying the button again after a redirect
+                redirectRecoverableState: { [RECOVERABLE_STATE_KEY]: this._getIdentifier() },
+                popupOverlay: this._getOverlayOptions(),
+                fallbackToRedirect: this.hasAttribute('fallback-to-redirect'),
+                locale: this.getAttribute('locale') || undefined,
+            });
+            if (!responsePromise) return;
+            this._setPending(true);
+            responsePromise.then(
+                (response) => this._dispatchGrantEvent(response, false),
+                (error) => this._dispatchErrorEvent(error),
+            ).finally(() => this._setPending(false));
+        } catch (error) {
+            this._dispatchErrorEvent(error);
+        }
+    }
+
+    private _checkRedirectResponse(): void {
+        try {
+            const redirectResponse = this.api.getRedirectGrantResponse();
+            if (!redirectResponse
+                || redirectResponse.recoveredState?.[RECOVERABLE_STATE_KEY] !== this._getIdentifier()) return;
+            this._dispatchDeferred(() => this._dispatchGrantEvent(redirectResponse.response, true));
+        } catch (error) {
+            if (hasReportedRedirectResponseError) return;
+            hasReportedRedirectResponseError = true;
+            this._dispatchDeferred(() => this._dispatchErrorEvent(error));
+        }
+    }
+
+    /**
+     * Dispatch events of the redirect response check, which runs when the element is connected, once the document has
+     * been parsed, or in the next task for elements added later, such that listeners attached by scripts after the
+     * element, or after appending it, receive them.
+     */
+    private _dispatchDeferred(dispatch: () => void): void {
+        if (document.readyState === 'loading') {
+            document.addEventListener('DOMContentLoaded', dispatch, { once: true });
+        } else {
+            window.setTimeout(dispatch);
+        }
+    }
+
+    private _getIdentifier(): string {
+        return this.id || this.getAttribute('app-id') || '';
+    }
+
+    private _getOverlayOptions(): boolean | PopupOverlayOptions {
+        if (this.getAttribute('overlay') === 'false') return false;
+        const text = this.getAttribute('overlay-text');
+        const logo = this.getAttribute('overlay-logo');
+        return {
+            ...(text ? { text } : null),
+            ...(logo ? { logo } : null),
+        };
+    }
+
+    private _setPending(isPending: boolean): void {
+        this._isPending = isPending;
+        this._updateButton();
+    }
+
+    private _updateButton(): void {
+        this._button.disabled = this.hasAttribute('disabled') || this._isPending;
+        this._button.setAttribute('aria-busy', String(this._isPending));
+    }
+
+    private _dispatchGrantEvent(response: GrantResponse, recovered: boolean): void {
+        this.dispatchEvent(new CustomEvent<Ten31PassButtonGrantEventDetail>('grant', {
+            detail: { response, recovered },
+            bubbles: true,
+            composed: true,
+        }));
+    }
+
+    private _dispatchErrorEvent(error: unknown): void {
+        this.dispatchEvent(new CustomEvent<Ten31PassButtonErrorEventDetail>('error', {
+            detail: { error },
+            bubbles: true,
+            composed: true,
+        }));
+    }
+}
+
+if (!customElements.get('ten31-pass-button')) {
+    customElements.define('ten31-pass-button', Ten31PassButton);
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'ten31-pass-button': Ten31PassButton;
+    }
+}